@@ -3,6 +3,11 @@ export {};
 // SOLUTION 02: Type-Safe Event Emitter
 // Run: npx tsx exercises/solutions/02-type-safe-event-emitter.solution.ts
 // ============================================================================
+//
+// The emitter itself lives in ./02-type-safe-event-emitter/ so other
+// solutions (the Todo API change feed) can import it.
+
+import { TypedEventEmitter } from "./02-type-safe-event-emitter/typed-event-emitter";
 
 interface AppEvents {
   userLoggedIn: { userId: string; timestamp: Date };
@@ -11,28 +16,6 @@ interface AppEvents {
   error: { code: number; message: string };
 }
 
-class TypedEventEmitter<Events extends Record<string, any>> {
-  // Map from event name to a Set of handler functions.
-  // We use `any` for the handler type in the Map because the generic constraint
-  // is enforced at the method level (on/off/emit), not at the storage level.
-  private handlers = new Map<keyof Events, Set<(payload: any) => void>>();
-
-  on<K extends keyof Events>(event: K, handler: (payload: Events[K]) => void): void {
-    if (!this.handlers.has(event)) {
-      this.handlers.set(event, new Set());
-    }
-    this.handlers.get(event)!.add(handler);
-  }
-
-  off<K extends keyof Events>(event: K, handler: (payload: Events[K]) => void): void {
-    this.handlers.get(event)?.delete(handler);
-  }
-
-  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
-    this.handlers.get(event)?.forEach((handler) => handler(payload));
-  }
-}
-
 // ============================================================================
 // TESTS
 // ============================================================================
@@ -76,3 +59,38 @@ console.log("\nTest 5: Type safety");
 // emitter.emit("nonExistentEvent", {});                      // ← Type error!
 // emitter.on("error", (payload) => console.log(payload.userId)); // ← Type error!
 console.log("  ✓ Uncomment the lines above to verify they produce type errors");
+
+// Test 6: once
+console.log("\nTest 6: once");
+let onceCount = 0;
+emitter.once("messageReceived", () => { onceCount++; });
+emitter.emit("messageReceived", { from: "dave", content: "one" });
+emitter.emit("messageReceived", { from: "dave", content: "two" });
+console.log(`  Once handler call count: ${onceCount} (expected 1)`);
+
+// Test 7: A failing handler doesn't stop the others
+console.log("\nTest 7: Error isolation");
+emitter.onError((failure) => {
+  console.log(`  ✓ Reported: "${String(failure.event)}" listener ${failure.listener} #${failure.index} failed`);
+});
+emitter.on("messageReceived", function spamFilter() {
+  throw new Error("filter crashed");
+});
+emitter.on("messageReceived", (payload) => {
+  console.log(`  ✓ Still delivered: ${payload.content}`);
+});
+emitter.emit("messageReceived", { from: "erin", content: "hi" });
+
+// Test 8: emitAsync waits for async handlers
+console.log("\nTest 8: emitAsync");
+const asyncEmitter = new TypedEventEmitter<AppEvents>();
+asyncEmitter.on("userLoggedOut", async () => {
+  await new Promise((resolve) => setTimeout(resolve, 50));
+});
+asyncEmitter.on("userLoggedOut", async () => {
+  throw new Error("session store unavailable");
+});
+asyncEmitter.onError(() => {});
+asyncEmitter.emitAsync("userLoggedOut", { userId: "frank" }).then((results) => {
+  console.log(`  Results: ${results.map((result) => result.status).join(", ")} (expected fulfilled, rejected)`);
+});
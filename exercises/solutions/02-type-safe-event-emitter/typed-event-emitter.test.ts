@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ListenerFailure, TypedEventEmitter } from "./typed-event-emitter";
+
+interface Events {
+  saved: { id: string };
+  deleted: { id: string };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("TypedEventEmitter", () => {
+  it("calls handlers in registration order until they're removed", () => {
+    const emitter = new TypedEventEmitter<Events>();
+    const calls: string[] = [];
+    const first = ({ id }: { id: string }) => void calls.push(`first ${id}`);
+    emitter.on("saved", first);
+    emitter.on("saved", ({ id }) => void calls.push(`second ${id}`));
+
+    emitter.emit("saved", { id: "1" });
+    emitter.off("saved", first);
+    emitter.emit("saved", { id: "2" });
+    emitter.emit("deleted", { id: "3" });
+
+    expect(calls).toEqual(["first 1", "second 1", "second 2"]);
+    expect(emitter.listenerCount("saved")).toBe(1);
+  });
+
+  it("runs once() handlers a single time", () => {
+    const emitter = new TypedEventEmitter<Events>();
+    const handler = vi.fn();
+    emitter.once("saved", handler);
+
+    emitter.emit("saved", { id: "1" });
+    emitter.emit("saved", { id: "2" });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith({ id: "1" });
+    expect(emitter.listenerCount("saved")).toBe(0);
+  });
+
+  it("reports a failing handler to the error channel and still runs the others", async () => {
+    const emitter = new TypedEventEmitter<Events>();
+    const failures: ListenerFailure<Events>[] = [];
+    emitter.onError((failure) => failures.push(failure));
+    const after = vi.fn();
+    emitter.on("saved", function audit() {
+      throw new Error("audit down");
+    });
+    emitter.once("saved", async () => {
+      throw new Error("index down");
+    });
+    emitter.on("saved", after);
+
+    emitter.emit("saved", { id: "1" });
+
+    expect(after).toHaveBeenCalled();
+    expect(failures).toEqual([
+      { event: "saved", error: new Error("audit down"), listener: "audit", index: 0, listenerCount: 3, once: false },
+    ]);
+    // Async handlers report once their promise rejects.
+    await vi.waitFor(() => expect(failures).toHaveLength(2));
+    expect(failures[1]).toMatchObject({ error: new Error("index down"), listener: "anonymous", index: 1, once: true });
+  });
+
+  it("logs failures when nobody listens on the error channel", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const emitter = new TypedEventEmitter<Events>();
+    const failure = new Error("boom");
+    emitter.on("deleted", () => {
+      throw failure;
+    });
+
+    emitter.emit("deleted", { id: "1" });
+
+    expect(error).toHaveBeenCalledWith('Listener anonymous for "deleted" failed:', failure);
+  });
+
+  it("waits for every handler in emitAsync() and returns their settled results", async () => {
+    const emitter = new TypedEventEmitter<Events>();
+    const onError = vi.fn();
+    emitter.onError(onError);
+    let done = false;
+    emitter.on("saved", async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      done = true;
+    });
+    emitter.on("saved", async () => {
+      throw new Error("nope");
+    });
+
+    const results = await emitter.emitAsync("saved", { id: "1" });
+
+    expect(done).toBe(true);
+    expect(results).toEqual([
+      { status: "fulfilled", value: undefined },
+      { status: "rejected", reason: new Error("nope") },
+    ]);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it("warns once per event when it has more listeners than maxListeners", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const emitter = new TypedEventEmitter<Events>({ maxListeners: 2 });
+
+    for (let i = 0; i < 4; i++) {
+      emitter.on("saved", () => {});
+    }
+
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0]?.[0]).toContain('3 listeners for "saved" (max 2)');
+
+    emitter.setMaxListeners(0);
+    for (let i = 0; i < 4; i++) {
+      emitter.on("deleted", () => {});
+    }
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(() => emitter.setMaxListeners(-1)).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,149 @@
+// --- Typed Event Emitter ---
+// Event names and payload types come from one map, so `on` and `emit` can
+// never disagree about what an event carries.
+//
+// Handlers are isolated from each other: one that throws, or rejects if it's
+// async, is reported to the error channel (onError) and the others still run.
+// emit() doesn't wait for async handlers; emitAsync() does.
+
+// Whatever a handler returns is ignored, except that a promise is awaited
+// by emitAsync() and its rejection reported.
+export type EventHandler<P> = (payload: P) => unknown;
+
+// What the error channel receives when a handler fails.
+export interface ListenerFailure<Events> {
+  event: keyof Events;
+  error: unknown;
+  // The handler's function name, or "anonymous".
+  listener: string;
+  // Its position among the handlers the event was delivered to.
+  index: number;
+  listenerCount: number;
+  once: boolean;
+}
+
+export interface TypedEventEmitterOptions {
+  // Handlers per event before a likely leak is warned about; 0 turns the
+  // warning off.
+  maxListeners?: number;
+}
+
+export class TypedEventEmitter<Events extends Record<string, any>> {
+  // Map from event name to its handlers, in registration order, each with
+  // whether it was added with once().
+  // We use `any` for the handler type in the Map because the generic constraint
+  // is enforced at the method level (on/off/emit), not at the storage level.
+  private handlers = new Map<keyof Events, Map<EventHandler<any>, { once: boolean }>>();
+  private errorHandlers = new Set<(failure: ListenerFailure<Events>) => void>();
+  private maxListeners = 10;
+  // Events already warned about, so a leak is reported once.
+  private warned = new Set<keyof Events>();
+
+  constructor(options: TypedEventEmitterOptions = {}) {
+    this.setMaxListeners(options.maxListeners ?? this.maxListeners);
+  }
+
+  on<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): void {
+    this.add(event, handler, false);
+  }
+
+  // The handler is removed before its first call.
+  once<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): void {
+    this.add(event, handler, true);
+  }
+
+  off<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): void {
+    this.handlers.get(event)?.delete(handler);
+  }
+
+  listenerCount(event: keyof Events): number {
+    return this.handlers.get(event)?.size ?? 0;
+  }
+
+  setMaxListeners(max: number): void {
+    if (!Number.isInteger(max) || max < 0) {
+      throw new RangeError(`maxListeners must be a non-negative integer, got ${max}`);
+    }
+    this.maxListeners = max;
+  }
+
+  // Without an error handler, failures are logged with console.error.
+  onError(handler: (failure: ListenerFailure<Events>) => void): void {
+    this.errorHandlers.add(handler);
+  }
+
+  offError(handler: (failure: ListenerFailure<Events>) => void): void {
+    this.errorHandlers.delete(handler);
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    void this.dispatch(event, payload);
+  }
+
+  // Resolves once every handler has settled, with one result per handler in
+  // the order they were called. Failures are also sent to the error channel.
+  emitAsync<K extends keyof Events>(event: K, payload: Events[K]): Promise<PromiseSettledResult<void>[]> {
+    return Promise.all(this.dispatch(event, payload));
+  }
+
+  private add<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>, once: boolean): void {
+    if (!this.handlers.has(event)) {
+      this.handlers.set(event, new Map());
+    }
+    const listeners = this.handlers.get(event)!;
+    listeners.set(handler, { once });
+
+    if (this.maxListeners > 0 && listeners.size > this.maxListeners && !this.warned.has(event)) {
+      this.warned.add(event);
+      console.warn(
+        `Possible TypedEventEmitter leak: ${listeners.size} listeners for "${String(event)}" ` +
+          `(max ${this.maxListeners}). Remove unused handlers with off() or raise the limit with setMaxListeners().`,
+      );
+    }
+  }
+
+  // Calls every handler of `event` synchronously. The returned promises
+  // never reject: a failure is reported and becomes a "rejected" result.
+  private dispatch<K extends keyof Events>(event: K, payload: Events[K]): Promise<PromiseSettledResult<void>>[] {
+    // A copy, so handlers added or removed during the emit don't change who
+    // receives this one.
+    const listeners = [...(this.handlers.get(event) ?? [])];
+
+    return listeners.map(([handler, { once }], index) => {
+      if (once) {
+        this.off(event, handler);
+      }
+      const fail = (error: unknown): PromiseRejectedResult => {
+        const listener = handler.name || "anonymous";
+        this.report({ event, error, listener, index, listenerCount: listeners.length, once });
+        return { status: "rejected", reason: error };
+      };
+
+      let result: unknown;
+      try {
+        result = handler(payload);
+      } catch (error) {
+        return Promise.resolve(fail(error));
+      }
+      return Promise.resolve(result).then(
+        (): PromiseFulfilledResult<void> => ({ status: "fulfilled", value: undefined }),
+        fail,
+      );
+    });
+  }
+
+  private report(failure: ListenerFailure<Events>): void {
+    if (this.errorHandlers.size === 0) {
+      console.error(`Listener ${failure.listener} for "${String(failure.event)}" failed:`, failure.error);
+      return;
+    }
+    for (const handler of this.errorHandlers) {
+      try {
+        handler(failure);
+      } catch (err) {
+        // Reporting it to the error channel again could loop forever.
+        console.error("Error handler failed:", err);
+      }
+    }
+  }
+}
@@ -3,50 +3,22 @@ export {};
 // SOLUTION 03: Async Task Queue
 // Run: npx tsx exercises/solutions/03-async-task-queue.solution.ts
 // ============================================================================
+//
+// The queue itself lives in ./03-async-task-queue/ so other solutions can
+// import it.
 
-type Task<T> = () => Promise<T>;
-
-class TaskQueue {
-  private concurrency: number;
-  private running = 0;
-  private queue: Array<() => void> = [];
-
-  constructor(concurrency: number) {
-    this.concurrency = concurrency;
-  }
-
-  async add<T>(task: Task<T>): Promise<T> {
-    // Return a Promise that we control. We store its resolve/reject
-    // so we can call them later when the task actually runs.
-    return new Promise<T>((resolve, reject) => {
-      const run = async () => {
-        this.running++;
-        try {
-          const result = await task();
-          resolve(result);
-        } catch (err) {
-          reject(err);
-        } finally {
-          this.running--;
-          this.tryRunNext();
-        }
-      };
-
-      if (this.running < this.concurrency) {
-        run();
-      } else {
-        this.queue.push(run);
-      }
-    });
-  }
-
-  private tryRunNext(): void {
-    if (this.running < this.concurrency && this.queue.length > 0) {
-      const next = this.queue.shift()!;
-      next();
-    }
-  }
-}
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { z } from "zod";
+import { MetricsRegistry } from "./shared/metrics";
+import { Task, TaskQueue } from "./03-async-task-queue/task-queue";
+import { createTaskQueueMetrics } from "./03-async-task-queue/task-queue-metrics";
+import { JobQueue, Worker } from "./03-async-task-queue/job-queue";
+import { FileJobStore } from "./03-async-task-queue/job-store";
+import { Scheduler } from "./03-async-task-queue/scheduler";
+import { defineWorkflow, WorkflowEngine, WorkflowFailedError } from "./03-async-task-queue/workflow";
+import { InMemoryWorkflowStore } from "./03-async-task-queue/workflow-store";
 
 // ============================================================================
 // TESTS
@@ -63,39 +35,273 @@ const delay = (ms: number, label: string): Task<string> => {
   };
 };
 
-// Test 1: Concurrency limit of 2
-console.log("Test 1: Max 2 concurrent tasks");
-console.log("  Expected: A and B start together, C starts when B finishes, D starts when C finishes\n");
-
-const queue = new TaskQueue(2);
+await concurrencyDemo();
+await sequentialDemo();
+await metricsDemo();
+await priorityDemo();
+await cancellationDemo();
+await lifecycleDemo();
+await retryDemo();
+await durableQueueDemo();
+await limitsDemo();
+await schedulerDemo();
+await workflowDemo();
 
-const start = Date.now();
+async function concurrencyDemo(): Promise<void> {
+  // Test 1: Concurrency limit of 2
+  console.log("Test 1: Max 2 concurrent tasks");
+  console.log("  Expected: A and B start together, C starts when B finishes, D starts when C finishes\n");
+  const queue = new TaskQueue(2);
+  const start = Date.now();
 
-Promise.all([
-  queue.add(delay(600, "A")),
-  queue.add(delay(300, "B")),
-  queue.add(delay(400, "C")),
-  queue.add(delay(200, "D")),
-]).then((results) => {
+  const results = await Promise.all([
+    queue.add(delay(600, "A")),
+    queue.add(delay(300, "B")),
+    queue.add(delay(400, "C")),
+    queue.add(delay(200, "D")),
+  ]);
   const elapsed = Date.now() - start;
   console.log(`\n  All done in ${elapsed}ms`);
   console.log(`  Results: [${results.join(", ")}]`);
   console.log(`  Expected: [A, B, C, D]`);
   console.log(`  Time should be ~700-900ms (not 1500ms if sequential)`);
+}
 
+async function sequentialDemo(): Promise<void> {
   // Test 2: Concurrency of 1 (sequential)
   console.log("\n\nTest 2: Concurrency of 1 (sequential)");
   const seqQueue = new TaskQueue(1);
   const seqStart = Date.now();
 
-  Promise.all([
+  const seqResults = await Promise.all([
     seqQueue.add(delay(100, "X")),
     seqQueue.add(delay(100, "Y")),
     seqQueue.add(delay(100, "Z")),
-  ]).then((seqResults) => {
-    const seqElapsed = Date.now() - seqStart;
-    console.log(`\n  Sequential done in ${seqElapsed}ms`);
-    console.log(`  Results: [${seqResults.join(", ")}]`);
-    console.log(`  Time should be ~300ms (sequential)`);
+  ]);
+  const seqElapsed = Date.now() - seqStart;
+  console.log(`\n  Sequential done in ${seqElapsed}ms`);
+  console.log(`  Results: [${seqResults.join(", ")}]`);
+  console.log(`  Time should be ~300ms (sequential)`);
+}
+
+async function metricsDemo(): Promise<void> {
+  // Test 3: Metrics
+  console.log("\n\nTest 3: Running/queued gauges");
+  const registry = new MetricsRegistry();
+  const metrics = createTaskQueueMetrics(registry);
+  const metricsQueue = new TaskQueue(2);
+  metrics.track("demo", metricsQueue);
+
+  const pending = [1, 2, 3, 4, 5].map((n) => metricsQueue.add(delay(100, `M${n}`)));
+  console.log("\n" + registry.render());
+  console.log("  Expected: task_queue_running 2, task_queue_queued 3");
+
+  await Promise.all(pending);
+  console.log("\n" + registry.render());
+  console.log("  Expected: both gauges back to 0");
+}
+
+async function priorityDemo(): Promise<void> {
+  // Test 4: Priorities and delays
+  console.log("\n\nTest 4: Priorities and delays (concurrency 1)");
+  console.log("  Expected order: first, urgent, normal-1, normal-2, low, delayed (after ~500ms)\n");
+  const priorityQueue = new TaskQueue(1);
+  await Promise.all([
+    priorityQueue.add(delay(100, "first")),
+    priorityQueue.add(delay(50, "delayed"), { delayMs: 500, priority: 10 }),
+    priorityQueue.add(delay(50, "low"), { priority: -1 }),
+    priorityQueue.add(delay(50, "normal-1")),
+    priorityQueue.add(delay(50, "urgent"), { priority: 10 }),
+    priorityQueue.add(delay(50, "normal-2")),
+  ]);
+}
+
+async function cancellationDemo(): Promise<void> {
+  // Test 5: Cancellation and timeouts
+  console.log("\n\nTest 5: Cancellation and timeouts (concurrency 1)");
+  console.log("  Expected: slow times out after 200ms, cancelled never starts, after runs\n");
+  const cancelQueue = new TaskQueue(1);
+  const controller = new AbortController();
+
+  const report = (label: string) => (err: Error) => console.log(`  ${label} rejected: ${err.name}: ${err.message}`);
+  cancelQueue.add(delay(1000, "slow"), { id: "slow", timeoutMs: 200 }).catch(report("slow"));
+  cancelQueue.add(delay(100, "cancelled"), { id: "cancelled", signal: controller.signal }).catch(report("cancelled"));
+  cancelQueue.add(delay(100, "after"));
+  controller.abort();
+
+  await cancelQueue.onIdle();
+}
+
+async function lifecycleDemo(): Promise<void> {
+  // Test 6: Pause, clear and lifecycle events
+  console.log("\n\nTest 6: Pause, clear and lifecycle events (concurrency 1)");
+  console.log("  Expected: P1 runs, P2 and P3 wait while paused and are cleared, P4 runs after resume\n");
+  const lifecycleQueue = new TaskQueue(1);
+  lifecycleQueue.events.on("task.queued", ({ id }) => console.log(`  event queued ${id}`));
+  lifecycleQueue.events.on("task.started", ({ id, waitMs }) => console.log(`  event started ${id} after ${waitMs}ms`));
+  lifecycleQueue.events.on("task.completed", ({ id, durationMs }) =>
+    console.log(`  event completed ${id} in ${durationMs}ms`),
+  );
+  lifecycleQueue.events.on("task.failed", ({ id, error }) =>
+    console.log(`  event failed ${id}: ${(error as Error).message}`),
+  );
+
+  lifecycleQueue.add(delay(100, "P1"), { id: "P1" });
+  lifecycleQueue.pause();
+  lifecycleQueue.add(delay(100, "P2"), { id: "P2" }).catch(() => {});
+  lifecycleQueue.add(delay(100, "P3"), { id: "P3", delayMs: 1000 }).catch(() => {});
+
+  await new Promise((resolve) => setTimeout(resolve, 300));
+  console.log(`  Paused with ${lifecycleQueue.size} waiting`);
+  console.log(`  Cleared ${lifecycleQueue.clear()}`);
+  lifecycleQueue.add(delay(100, "P4"), { id: "P4" });
+  lifecycleQueue.resume();
+  await lifecycleQueue.onIdle();
+  console.log("  Idle");
+}
+
+async function retryDemo(): Promise<void> {
+  // Test 7: Retries and dead letters
+  console.log("\n\nTest 7: Retries and dead letters");
+  console.log("  Expected: flaky succeeds on attempt 3, broken is dead-lettered after 3 attempts\n");
+  const retryQueue = new TaskQueue(2);
+  const retry = { attempts: 3, backoffMs: 100 };
+  retryQueue.events.on("task.retrying", ({ id, attempt, delayMs }) =>
+    console.log(`  ${id} attempt ${attempt} failed, retrying in ${delayMs}ms`),
+  );
+
+  const flaky: Task<string> = async ({ attempt }) => {
+    if (attempt < 3) throw new Error(`flaky attempt ${attempt}`);
+    return `flaky ok on attempt ${attempt}`;
+  };
+  const broken: Task<string> = async ({ attempt }) => {
+    throw new Error(`broken attempt ${attempt}`);
+  };
+
+  retryQueue.add(flaky, { id: "flaky", retry }).then((result) => console.log(`  ${result}`));
+  retryQueue.add(broken, { id: "broken", retry }).catch(() => {});
+  await retryQueue.onIdle();
+  for (const deadLetter of retryQueue.deadLetters()) {
+    const errors = deadLetter.attempts.map(({ error }) => (error as Error).message);
+    console.log(`  Dead letter ${deadLetter.id}: [${errors.join(", ")}]`);
+  }
+}
+
+async function durableQueueDemo(): Promise<void> {
+  // Test 8: Durable job queue
+  console.log("\n\nTest 8: Durable job queue with two workers sharing a file");
+  console.log("  Expected: 4 emails sent across w1 and w2, the invalid payload rejected at enqueue\n");
+  const dir = await mkdtemp(join(tmpdir(), "job-queue-demo-"));
+  const path = join(dir, "jobs.json");
+  const jobs = {
+    "email.send": { schema: z.object({ to: z.string().email() }), retry: { attempts: 3, backoffMs: 50 } },
+  };
+
+  const producer = new JobQueue({ store: new FileJobStore(path), jobs });
+  for (const to of ["ada@example.com", "bob@example.com", "cy@example.com", "di@example.com"]) {
+    await producer.enqueue("email.send", { to });
+  }
+  await producer.enqueue("email.send", { to: "not an email" }).catch((err: Error) => console.log(`  ${err.message}`));
+
+  // Each worker gets its own store, as a separate process would.
+  const workers = ["w1", "w2"].map(
+    (id) =>
+      new Worker(new JobQueue({ store: new FileJobStore(path), jobs }), {
+        id,
+        pollIntervalMs: 20,
+        handlers: {
+          "email.send": async ({ to }) => {
+            console.log(`  ${id} sending to ${to}`);
+            await new Promise((resolve) => setTimeout(resolve, 50));
+            return { sentAt: new Date().toISOString() };
+          },
+        },
+      }),
+  );
+  workers.forEach((worker) => worker.start());
+
+  while ((await producer.listJobs({ state: "completed" })).length < 4) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  await Promise.all(workers.map((worker) => worker.stop()));
+  console.log(`  Completed: ${(await producer.listJobs({ state: "completed" })).length}`);
+  await rm(dir, { recursive: true, force: true });
+}
+
+async function limitsDemo(): Promise<void> {
+  // Test 9: Rate limit and per-key concurrency
+  console.log("\n\nTest 9: Rate limit and per-key concurrency");
+  console.log("  Expected: 2 starts per 300ms, never two tasks for the same user at once\n");
+  const limitedQueue = new TaskQueue({ concurrency: 4, rateLimit: { limit: 2, intervalMs: 300 }, keyConcurrency: 1 });
+  for (const [user, n] of [
+    ["alice", 1],
+    ["alice", 2],
+    ["bob", 1],
+    ["carol", 1],
+    ["bob", 2],
+  ] as const) {
+    limitedQueue.add(delay(100, `${user}-${n}`), { key: user });
+  }
+  await limitedQueue.onIdle();
+}
+
+async function schedulerDemo(): Promise<void> {
+  // Test 10: Scheduler
+  console.log("\n\nTest 10: Interval scheduler without overlap");
+  console.log("  Expected: tick runs every 200ms; slow (350ms every 200ms) skips every other run\n");
+  const scheduler = new Scheduler(new TaskQueue(2));
+  scheduler.schedule({ name: "tick", everyMs: 200, task: async () => console.log("  tick") });
+  scheduler.schedule({ name: "slow", everyMs: 200, task: delay(350, "slow") });
+  scheduler.start();
+
+  await new Promise((resolve) => setTimeout(resolve, 1_050));
+  await scheduler.stop();
+  for (const { name, runs, skipped, lastRun } of scheduler.list()) {
+    console.log(`  ${name}: ${runs} runs, ${skipped} skipped, last ${lastRun?.outcome}`);
+  }
+}
+
+async function workflowDemo(): Promise<void> {
+  // Test 11: Workflow with compensation
+  console.log("\n\nTest 11: Checkout workflow (saga)");
+  console.log("  Expected: reserve and charge run in parallel, ship fails twice, then refund and release\n");
+  const checkout = defineWorkflow<{ orderId: string; amount: number }>("checkout")
+    .step(
+      "reserve",
+      [],
+      async ({ input }) => {
+        console.log(`  reserve stock for ${input.orderId}`);
+        return { reservationId: `res-${input.orderId}` };
+      },
+      { compensate: async ({ output }) => console.log(`  release ${output.reservationId}`) },
+    )
+    .step(
+      "charge",
+      [],
+      async ({ input }) => {
+        console.log(`  charge ${input.amount}`);
+        return { paymentId: `pay-${input.orderId}` };
+      },
+      { compensate: async ({ output }) => console.log(`  refund ${output.paymentId}`) },
+    )
+    .step(
+      "ship",
+      ["reserve", "charge"],
+      async ({ deps, attempt }) => {
+        console.log(`  ship ${deps.reserve.reservationId} (attempt ${attempt})`);
+        throw new Error("carrier unavailable");
+      },
+      { retry: { attempts: 2, backoffMs: 50 } },
+    );
+
+  const engine = new WorkflowEngine({ queue: new TaskQueue(4), store: new InMemoryWorkflowStore() });
+  await engine.start(checkout, { orderId: "o-1", amount: 42 }).catch((err: Error) => {
+    const steps = err instanceof WorkflowFailedError ? err.run.steps : {};
+    console.log(`  ${err.message}`);
+    console.log(
+      `  Steps: ${Object.entries(steps)
+        .map(([name, step]) => `${name}=${step.status}`)
+        .join(", ")}`,
+    );
   });
-});
+}
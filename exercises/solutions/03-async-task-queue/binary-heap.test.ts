@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { BinaryHeap } from "./binary-heap";
+
+describe("BinaryHeap", () => {
+  it("pops items in compare order", () => {
+    const heap = new BinaryHeap<number>((a, b) => a - b);
+    const values = Array.from({ length: 200 }, (_, i) => (i * 7919) % 211);
+    values.forEach((value) => heap.push(value));
+
+    expect(heap.size).toBe(200);
+    expect(heap.peek()).toBe(Math.min(...values));
+
+    const popped: number[] = [];
+    while (heap.size > 0) {
+      popped.push(heap.pop()!);
+    }
+    expect(popped).toEqual([...values].sort((a, b) => a - b));
+    expect(heap.pop()).toBeUndefined();
+  });
+
+  it("removes an item from the middle and stays ordered", () => {
+    const heap = new BinaryHeap<{ n: number }>((a, b) => a.n - b.n);
+    const items = [5, 3, 8, 1, 9, 2, 7].map((n) => ({ n }));
+    items.forEach((item) => heap.push(item));
+
+    expect(heap.remove(items[1]!)).toBe(true);
+    expect(heap.remove({ n: 3 })).toBe(false);
+
+    const popped: number[] = [];
+    while (heap.size > 0) {
+      popped.push(heap.pop()!.n);
+    }
+    expect(popped).toEqual([1, 2, 5, 7, 8, 9]);
+  });
+});
@@ -0,0 +1,81 @@
+// --- Binary Heap ---
+// An array-backed priority queue: push and pop are O(log n), where a sorted
+// array or shift() would be O(n). `compare` orders items like Array#sort:
+// negative means `a` comes out first.
+
+export class BinaryHeap<T> {
+  private items: T[] = [];
+
+  constructor(private readonly compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    this.items.push(item);
+    this.siftUp(this.items.length - 1);
+  }
+
+  pop(): T | undefined {
+    const top = this.items[0];
+    const last = this.items.pop();
+    if (this.items.length > 0 && last !== undefined) {
+      this.items[0] = last;
+      this.siftDown(0);
+    }
+    return top;
+  }
+
+  // O(n) to find the item, then O(log n) to restore the heap. Returns false
+  // if the item isn't in the heap.
+  remove(item: T): boolean {
+    const index = this.items.indexOf(item);
+    if (index === -1) {
+      return false;
+    }
+
+    const last = this.items.pop()!;
+    if (index < this.items.length) {
+      this.items[index] = last;
+      this.siftUp(index);
+      this.siftDown(index);
+    }
+    return true;
+  }
+
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.compare(this.items[index]!, this.items[parent]!) >= 0) {
+        return;
+      }
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    const length = this.items.length;
+    for (;;) {
+      const left = 2 * index + 1;
+      const right = left + 1;
+      let first = index;
+      if (left < length && this.compare(this.items[left]!, this.items[first]!) < 0) first = left;
+      if (right < length && this.compare(this.items[right]!, this.items[first]!) < 0) first = right;
+      if (first === index) {
+        return;
+      }
+      this.swap(index, first);
+      index = first;
+    }
+  }
+
+  private swap(i: number, j: number): void {
+    [this.items[i], this.items[j]] = [this.items[j]!, this.items[i]!];
+  }
+}
@@ -0,0 +1,70 @@
+// --- Clock ---
+// Time and timers behind one interface, so code that waits for wall-clock
+// time (the scheduler) can be driven by a ManualClock in tests instead of
+// real waiting.
+
+// Opaque: only ever handed back to the clock that returned it.
+export type TimerHandle = unknown;
+
+export interface Clock {
+  now(): Date;
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+interface ManualTimer {
+  handle: TimerHandle;
+  at: number;
+  callback: () => void;
+}
+
+// Time only moves when advance() is called. Timers fire in order, and
+// promise callbacks they trigger get to run before the next one fires.
+export class ManualClock implements Clock {
+  private time: number;
+  private nextId = 1;
+  private timers: ManualTimer[] = [];
+
+  constructor(start: Date | number = 0) {
+    this.time = new Date(start).getTime();
+  }
+
+  now(): Date {
+    return new Date(this.time);
+  }
+
+  setTimeout(callback: () => void, ms: number): TimerHandle {
+    const handle = this.nextId++;
+    this.timers.push({ handle, at: this.time + Math.max(0, ms), callback });
+    return handle;
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers = this.timers.filter((timer) => timer.handle !== handle);
+  }
+
+  async advance(ms: number): Promise<void> {
+    const until = this.time + ms;
+    await settle();
+    for (;;) {
+      const due = this.timers.filter((timer) => timer.at <= until).sort((a, b) => a.at - b.at)[0];
+      if (!due) {
+        break;
+      }
+      this.timers = this.timers.filter((timer) => timer !== due);
+      this.time = due.at;
+      due.callback();
+      await settle();
+    }
+    this.time = until;
+  }
+}
+
+// Lets pending promise callbacks and I/O-free async work run.
+const settle = () => new Promise<void>((resolve) => setImmediate(resolve));
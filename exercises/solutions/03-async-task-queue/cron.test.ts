@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { CronParseError, nextCronTime, parseCron } from "./cron";
+
+const next = (expression: string, after: string) => nextCronTime(parseCron(expression), new Date(after)).toISOString();
+
+describe("parseCron", () => {
+  it("expands ranges, lists, steps and names", () => {
+    const schedule = parseCron("*/15 9-17 1,15 JAN-MAR mon-fri");
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect([...parseCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+  });
+
+  it("rejects malformed expressions", () => {
+    for (const expression of ["* * * *", "60 * * * *", "* * 0 * *", "*/0 * * * *", "5-1 * * * *", "* * * FOO *"]) {
+      expect(() => parseCron(expression), expression).toThrow(CronParseError);
+    }
+  });
+});
+
+describe("nextCronTime", () => {
+  it("finds the next matching minute, strictly after the given time", () => {
+    expect(next("*/15 * * * *", "2024-01-01T10:00:00Z")).toBe("2024-01-01T10:15:00.000Z");
+    expect(next("*/15 * * * *", "2024-01-01T10:07:30Z")).toBe("2024-01-01T10:15:00.000Z");
+    expect(next("30 2 * * *", "2024-01-01T03:00:00Z")).toBe("2024-01-02T02:30:00.000Z");
+  });
+
+  it("rolls over months and years", () => {
+    expect(next("0 0 1 * *", "2024-01-31T12:00:00Z")).toBe("2024-02-01T00:00:00.000Z");
+    expect(next("0 0 1 1 *", "2024-06-01T00:00:00Z")).toBe("2025-01-01T00:00:00.000Z");
+    expect(next("0 0 29 2 *", "2024-03-01T00:00:00Z")).toBe("2028-02-29T00:00:00.000Z");
+  });
+
+  it("matches either day field when both are restricted", () => {
+    // 2024-01-01 is a Monday: the 13th comes after the next Friday.
+    expect(next("0 0 13 * FRI", "2024-01-01T00:00:00Z")).toBe("2024-01-05T00:00:00.000Z");
+    expect(next("0 0 13 * FRI", "2024-01-12T00:00:00Z")).toBe("2024-01-13T00:00:00.000Z");
+  });
+
+  it("gives up on dates that never exist", () => {
+    expect(() => next("0 0 30 2 *", "2024-01-01T00:00:00Z")).toThrow(CronParseError);
+  });
+});
@@ -0,0 +1,149 @@
+// --- Cron Expressions ---
+// The classic five fields: minute, hour, day of month, month, day of week.
+// Each takes `*`, numbers, ranges (`1-5`), lists (`1,15`) and steps (`*/15`,
+// `0-30/10`); months and weekdays also take names (`JAN`, `MON`), and
+// Sunday is 0 or 7. As in Vixie cron, when both day fields are restricted a
+// day matches if either does. Times are evaluated in UTC.
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: readonly string[];
+}
+
+const fields: readonly CronField[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  {
+    name: "month",
+    min: 1,
+    max: 12,
+    names: ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"],
+  },
+  { name: "day of week", min: 0, max: 7, names: ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"] },
+];
+
+export class CronParseError extends Error {
+  constructor(expression: string, reason: string) {
+    super(`Invalid cron expression "${expression}": ${reason}`);
+    this.name = "CronParseError";
+  }
+}
+
+export interface CronSchedule {
+  expression: string;
+  minutes: ReadonlySet<number>;
+  hours: ReadonlySet<number>;
+  daysOfMonth: ReadonlySet<number>;
+  months: ReadonlySet<number>;
+  // Sunday is 0 here, whichever way the expression wrote it.
+  daysOfWeek: ReadonlySet<number>;
+  // Whether the day fields were `*`, which decides how they combine.
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new CronParseError(expression, `expected 5 fields, got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) =>
+    parseField(expression, part, fields[i]!),
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2] === "*",
+    anyDayOfWeek: parts[4] === "*",
+  };
+}
+
+function parseField(expression: string, part: string, field: CronField): Set<number> {
+  const values = new Set<number>();
+  const value = (text: string): number => {
+    const named = field.names?.indexOf(text.toUpperCase()) ?? -1;
+    const n = named >= 0 ? named + (field.name === "month" ? 1 : 0) : /^\d+$/.test(text) ? Number(text) : NaN;
+    if (!(n >= field.min && n <= field.max)) {
+      throw new CronParseError(expression, `"${text}" is not a valid ${field.name}`);
+    }
+    return n;
+  };
+
+  for (const item of part.split(",")) {
+    const [range, stepText] = item.split("/") as [string, string | undefined];
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronParseError(expression, `"${item}" has an invalid step`);
+    }
+
+    let from: number;
+    let to: number;
+    if (range === "*") {
+      [from, to] = [field.min, field.max];
+    } else if (range.includes("-")) {
+      const [start, end] = range.split("-") as [string, string];
+      [from, to] = [value(start), value(end)];
+      if (from > to) {
+        throw new CronParseError(expression, `"${range}" is an empty range`);
+      }
+    } else {
+      from = value(range);
+      // `5/15` means from 5 to the end in steps of 15.
+      to = stepText === undefined ? from : field.max;
+    }
+
+    for (let n = from; n <= to; n += step) {
+      values.add(n);
+    }
+  }
+  return values;
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+// The first matching minute strictly after `after`. Skips whole months,
+// days and hours that can't match, so even yearly schedules take a few
+// hundred steps at most.
+export function nextCronTime(schedule: CronSchedule, after: Date): Date {
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  // Eight years covers every leap-day schedule.
+  const limit = after.getTime() + 8 * 366 * 24 * 60 * 60 * 1000;
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+    } else if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+  throw new CronParseError(schedule.expression, "it never matches a real date");
+}
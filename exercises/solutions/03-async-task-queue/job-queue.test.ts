@@ -0,0 +1,257 @@
+import { describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { InvalidJobPayloadError, JobQueue, Worker } from "./job-queue";
+import { InMemoryJobStore } from "./job-store";
+
+const jobs = {
+  "email.send": {
+    schema: z.object({ to: z.string().email(), subject: z.string().default("Hello") }),
+    retry: { attempts: 2, backoffMs: 1_000, jitter: 0 },
+  },
+  "report.build": { schema: z.object({ month: z.string() }) },
+};
+
+// A clock the test moves by hand, so leases and backoff need no real waiting.
+function clock(start = 0) {
+  let now = start;
+  return {
+    now: () => new Date(now),
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+function setup() {
+  const time = clock();
+  const queue = new JobQueue({ store: new InMemoryJobStore(), jobs, now: time.now });
+  return { queue, time };
+}
+
+// Resolves once `check` holds, polling on real timers.
+async function eventually(check: () => Promise<boolean>): Promise<void> {
+  for (let i = 0; i < 200; i++) {
+    if (await check()) return;
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  throw new Error("Condition never held");
+}
+
+describe("JobQueue", () => {
+  it("validates payloads against the job's schema and stores the input", async () => {
+    const { queue } = setup();
+
+    const job = await queue.enqueue("email.send", { to: "ada@example.com" });
+    expect(job).toMatchObject({
+      name: "email.send",
+      payload: { to: "ada@example.com" },
+      state: "waiting",
+      attempts: 0,
+      maxAttempts: 2,
+    });
+
+    await expect(queue.enqueue("email.send", { to: "not an email" })).rejects.toBeInstanceOf(InvalidJobPayloadError);
+    // @ts-expect-error unknown job names don't compile either
+    await expect(queue.enqueue("nope", {})).rejects.toThrow('Unknown job "nope"');
+  });
+
+  it("returns the existing job when an id is enqueued twice", async () => {
+    const { queue } = setup();
+
+    const first = await queue.enqueue("report.build", { month: "2024-01" }, { id: "report-2024-01" });
+    const second = await queue.enqueue("report.build", { month: "2024-02" }, { id: "report-2024-01" });
+
+    expect(second).toEqual(first);
+    expect(await queue.listJobs()).toHaveLength(1);
+  });
+
+  it("leases due jobs oldest first and only for the names asked for", async () => {
+    const { queue, time } = setup();
+    await queue.enqueue("report.build", { month: "2024-01" }, { id: "later", delayMs: 500 });
+    time.advance(1);
+    await queue.enqueue("report.build", { month: "2024-02" }, { id: "now" });
+    await queue.enqueue("email.send", { to: "ada@example.com" }, { id: "email" });
+
+    expect(await queue.lease(["report.build"], "w1", 1_000)).toMatchObject({
+      id: "now",
+      state: "active",
+      attempts: 1,
+      leasedBy: "w1",
+      leaseExpiresAt: new Date(1_001),
+    });
+    expect(await queue.lease(["report.build"], "w1", 1_000)).toBeUndefined();
+
+    time.advance(500);
+    expect(await queue.lease(["report.build"], "w1", 1_000)).toMatchObject({ id: "later" });
+  });
+
+  it("reclaims a job whose lease ran out and ignores the old worker", async () => {
+    const { queue, time } = setup();
+    await queue.enqueue("email.send", { to: "ada@example.com" }, { id: "job" });
+
+    await queue.lease(["email.send"], "crashed", 1_000);
+    expect(await queue.extendLease("job", "crashed", 1_000)).toBe(true);
+    time.advance(2_000);
+
+    // A stall, not a failed attempt: no backoff, and the attempt is run again.
+    expect(await queue.lease(["email.send"], "w2", 1_000)).toMatchObject({
+      attempts: 1,
+      stalls: 1,
+      leasedBy: "w2",
+      error: "Lease held by crashed expired",
+    });
+
+    expect(await queue.complete("job", "crashed", "late")).toBe(false);
+    expect(await queue.complete("job", "w2", "sent")).toBe(true);
+    expect(await queue.getJob("job")).toMatchObject({ state: "completed", result: "sent", error: null });
+  });
+
+  it("requeues a stalled job without a retry policy, then fails it past maxStalls", async () => {
+    const { queue, time } = setup();
+    await queue.enqueue("report.build", { month: "2024-01" }, { id: "report" });
+
+    // Default options: one stall is forgiven, the next fails the job.
+    for (const worker of ["w1", "w2"]) {
+      expect(await queue.lease(["report.build"], worker, 1_000)).toMatchObject({ state: "active", attempts: 1 });
+      time.advance(1_000);
+    }
+    expect(await queue.lease(["report.build"], "w3", 1_000)).toBeUndefined();
+    expect(await queue.getJob("report")).toMatchObject({
+      state: "failed",
+      stalls: 2,
+      error: "Stalled 2 times; the last lease was held by w2",
+    });
+
+    expect(() => new JobQueue({ store: new InMemoryJobStore(), jobs, maxStalls: -1 })).toThrow(RangeError);
+  });
+
+  it("retries a failed job after its backoff, then marks it failed", async () => {
+    const { queue, time } = setup();
+    await queue.enqueue("email.send", { to: "ada@example.com" }, { id: "job" });
+
+    await queue.lease(["email.send"], "w1", 1_000);
+    await queue.fail("job", "w1", new Error("SMTP down"));
+    expect(await queue.getJob("job")).toMatchObject({ state: "waiting", runAt: new Date(1_000), error: "SMTP down" });
+
+    time.advance(1_000);
+    await queue.lease(["email.send"], "w1", 1_000);
+    await queue.fail("job", "w1", new Error("SMTP still down"));
+    expect(await queue.getJob("job")).toMatchObject({ state: "failed", attempts: 2, error: "SMTP still down" });
+  });
+});
+
+describe("Worker", () => {
+  it("runs jobs through typed handlers and records the results", async () => {
+    const queue = new JobQueue({ store: new InMemoryJobStore(), jobs });
+    const seen: string[] = [];
+    const worker = new Worker(queue, {
+      handlers: {
+        "email.send": async ({ to, subject }, { attempt }) => {
+          seen.push(`${to}: ${subject} (attempt ${attempt})`);
+          return { delivered: true };
+        },
+      },
+      concurrency: 2,
+      pollIntervalMs: 5,
+    });
+
+    await queue.enqueue("email.send", { to: "ada@example.com" }, { id: "a" });
+    await queue.enqueue("email.send", { to: "bob@example.com", subject: "Hi" }, { id: "b" });
+    await queue.enqueue("report.build", { month: "2024-01" }, { id: "unhandled" });
+    worker.start();
+    await eventually(async () => (await queue.listJobs({ state: "completed" })).length === 2);
+    await worker.stop();
+
+    expect(seen.sort()).toEqual(["ada@example.com: Hello (attempt 1)", "bob@example.com: Hi (attempt 1)"]);
+    expect(await queue.getJob("a")).toMatchObject({ state: "completed", result: { delivered: true } });
+    expect(await queue.getJob("unhandled")).toMatchObject({ state: "waiting" });
+  });
+
+  it("hands handlers the parsed payload, even when the schema transforms it", async () => {
+    const queue = new JobQueue({
+      store: new InMemoryJobStore(),
+      jobs: { "image.resize": { schema: z.object({ width: z.string().transform(Number) }) } },
+    });
+    const widths: number[] = [];
+    const worker = new Worker(queue, {
+      handlers: {
+        "image.resize": async ({ width }) => {
+          widths.push(width);
+        },
+      },
+      pollIntervalMs: 5,
+    });
+
+    await queue.enqueue("image.resize", { width: "640" }, { id: "resize" });
+    worker.start();
+    await eventually(async () => (await queue.getJob("resize"))?.state !== "waiting");
+    await worker.stop();
+
+    expect(widths).toEqual([640]);
+    expect(await queue.getJob("resize")).toMatchObject({ state: "completed", payload: { width: "640" } });
+  });
+
+  it("fails a stored payload the schema rejects without retrying it", async () => {
+    const store = new InMemoryJobStore();
+    const queue = new JobQueue({ store, jobs });
+    const handler = vi.fn();
+    const worker = new Worker(queue, { handlers: { "email.send": handler }, pollIntervalMs: 5 });
+
+    await queue.enqueue("email.send", { to: "ada@example.com" }, { id: "email" });
+    // As if another process sharing the store had written it.
+    await store.transaction((stored) => {
+      stored[0]!.payload = { to: 42 };
+    });
+    worker.start();
+    await eventually(async () => (await queue.getJob("email"))?.state === "failed");
+    await worker.stop();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(await queue.getJob("email")).toMatchObject({ attempts: 1, error: expect.stringContaining("email.send") });
+  });
+
+  it("reports a failure to record a result without failing the job", async () => {
+    const queue = new JobQueue({ store: new InMemoryJobStore(), jobs });
+    const storeDown = new Error("store unavailable");
+    vi.spyOn(queue, "complete").mockRejectedValue(storeDown);
+    const fail = vi.spyOn(queue, "fail");
+    const onError = vi.fn();
+    const worker = new Worker(queue, {
+      handlers: { "report.build": async () => "built" },
+      pollIntervalMs: 5,
+      onError,
+    });
+
+    await queue.enqueue("report.build", { month: "2024-01" }, { id: "report" });
+    worker.start();
+    await eventually(async () => onError.mock.calls.length > 0);
+    await worker.stop();
+
+    expect(onError).toHaveBeenCalledWith(storeDown);
+    expect(fail).not.toHaveBeenCalled();
+    expect(await queue.getJob("report")).toMatchObject({ state: "active", attempts: 1 });
+  });
+
+  it("records a failing handler's error and lets stop() wait for running jobs", async () => {
+    const queue = new JobQueue({ store: new InMemoryJobStore(), jobs });
+    let release!: () => void;
+    const worker = new Worker(queue, {
+      handlers: {
+        "report.build": async () => {
+          await new Promise<void>((resolve) => (release = resolve));
+          throw new Error("no data for that month");
+        },
+      },
+      pollIntervalMs: 5,
+    });
+
+    await queue.enqueue("report.build", { month: "2024-01" }, { id: "report" });
+    worker.start();
+    await eventually(async () => (await queue.getJob("report"))?.state === "active");
+
+    const stopped = worker.stop();
+    release();
+    await stopped;
+    expect(await queue.getJob("report")).toMatchObject({ state: "failed", error: "no data for that month" });
+  });
+});
@@ -0,0 +1,395 @@
+// --- Job Queue ---
+// A durable queue of named jobs, the local equivalent of a BullMQ queue.
+// Producers enqueue `{ name, payload }` jobs, each payload checked against
+// its job's Zod schema, and the jobs live in a JobStore rather than in
+// memory, so they survive a crash or restart.
+//
+// Workers (in this process or others sharing the store) lease jobs for
+// `leaseMs` and keep extending the lease while the handler runs. If a worker
+// dies, its lease runs out and the next lease() hands the job to someone
+// else. Such a stall isn't a failed attempt, as the handler never got to
+// fail, but a job that stalls more than `maxStalls` times (most likely by
+// crashing whoever runs it) is failed. Failed attempts are retried following
+// the job's RetryPolicy; after the last one the job stays failed.
+
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import { Job, JobState, JobStore } from "./job-store";
+import { backoffDelay, RetryPolicy, validateRetryPolicy } from "./retry-policy";
+import { TaskQueue } from "./task-queue";
+
+export interface JobDefinition<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  schema: S;
+  // Without one, a job gets a single attempt.
+  retry?: RetryPolicy;
+}
+
+export type JobDefinitions = Record<string, JobDefinition>;
+
+export type JobName<D extends JobDefinitions> = keyof D & string;
+
+// What producers pass to enqueue() and what handlers receive, which differ
+// when the schema has defaults or transforms. The input is what gets stored,
+// so it must be JSON-serializable; workers parse it into the payload.
+export type JobInput<D extends JobDefinitions, N extends JobName<D>> = z.input<D[N]["schema"]>;
+export type JobPayload<D extends JobDefinitions, N extends JobName<D>> = z.output<D[N]["schema"]>;
+
+export class InvalidJobPayloadError extends Error {
+  constructor(
+    readonly jobName: string,
+    readonly issues: z.ZodIssue[],
+  ) {
+    super(`Invalid payload for job "${jobName}": ${issues.map((issue) => issue.message).join("; ")}`);
+    this.name = "InvalidJobPayloadError";
+  }
+}
+
+export interface EnqueueOptions {
+  // Enqueuing an id that already exists returns the existing job instead of
+  // adding a second one. Generated when omitted.
+  id?: string;
+  // Milliseconds before the job may be leased. Defaults to 0.
+  delayMs?: number;
+}
+
+export interface JobFilter {
+  state?: JobState;
+  name?: string;
+}
+
+export interface JobQueueOptions<D extends JobDefinitions> {
+  store: JobStore;
+  jobs: D;
+  // Times a job's lease may run out before the job is failed. Defaults to 1.
+  maxStalls?: number;
+  now?: () => Date;
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+export class JobQueue<D extends JobDefinitions> {
+  readonly definitions: D;
+  private readonly store: JobStore;
+  private readonly maxStalls: number;
+  private readonly now: () => Date;
+
+  constructor(options: JobQueueOptions<D>) {
+    const { maxStalls = 1 } = options;
+    if (!Number.isInteger(maxStalls) || maxStalls < 0) {
+      throw new RangeError(`maxStalls must be a non-negative integer, got ${maxStalls}`);
+    }
+    for (const definition of Object.values(options.jobs)) {
+      if (definition.retry) {
+        validateRetryPolicy(definition.retry);
+      }
+    }
+    this.definitions = options.jobs;
+    this.store = options.store;
+    this.maxStalls = maxStalls;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  async enqueue<N extends JobName<D>>(name: N, input: JobInput<D, N>, options: EnqueueOptions = {}): Promise<Job> {
+    const definition = this.definition(name);
+    const { id = randomUUID(), delayMs = 0 } = options;
+    if (!Number.isFinite(delayMs) || delayMs < 0) {
+      throw new RangeError(`Job delayMs must be a non-negative number, got ${delayMs}`);
+    }
+    const parsed = definition.schema.safeParse(input);
+    if (!parsed.success) {
+      throw new InvalidJobPayloadError(name, parsed.error.issues);
+    }
+
+    const now = this.now();
+    const job: Job = {
+      id,
+      name,
+      // The output may not survive a JSON round trip (a Date comes back as a
+      // string) or parse again (a transform's output isn't its input).
+      payload: input,
+      state: "waiting",
+      attempts: 0,
+      stalls: 0,
+      maxAttempts: definition.retry?.attempts ?? 1,
+      runAt: new Date(now.getTime() + delayMs),
+      leasedBy: null,
+      leaseExpiresAt: null,
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    return this.store.transaction((jobs) => {
+      const existing = jobs.find((j) => j.id === id);
+      if (existing) {
+        return { ...existing };
+      }
+      jobs.push(job);
+      return { ...job };
+    });
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    return (await this.store.read()).find((job) => job.id === id);
+  }
+
+  async listJobs(filter: JobFilter = {}): Promise<Job[]> {
+    const jobs = await this.store.read();
+    return jobs.filter(
+      (job) => (!filter.state || job.state === filter.state) && (!filter.name || job.name === filter.name),
+    );
+  }
+
+  // The methods below are what Worker runs on; they're public so a custom
+  // worker loop can drive the queue too. Apart from lease(), each returns
+  // whether `workerId` still held the job and changed it: a lease that ran
+  // out may have been reclaimed by another worker.
+
+  // Claims the longest-due waiting job among `names` for `leaseMs`, first
+  // reclaiming active jobs whose lease has run out.
+  lease(names: readonly string[], workerId: string, leaseMs: number): Promise<Job | undefined> {
+    return this.store.transaction((jobs) => {
+      const now = this.now();
+      for (const job of jobs) {
+        if (job.state === "active" && job.leaseExpiresAt! <= now) {
+          this.reclaim(job, now);
+        }
+      }
+
+      const due = jobs
+        .filter((job) => job.state === "waiting" && job.runAt <= now && names.includes(job.name))
+        .sort((a, b) => a.runAt.getTime() - b.runAt.getTime() || a.createdAt.getTime() - b.createdAt.getTime());
+      const job = due[0];
+      if (!job) {
+        return undefined;
+      }
+
+      Object.assign(job, {
+        state: "active",
+        attempts: job.attempts + 1,
+        leasedBy: workerId,
+        leaseExpiresAt: new Date(now.getTime() + leaseMs),
+        updatedAt: now,
+      });
+      return { ...job };
+    });
+  }
+
+  extendLease(id: string, workerId: string, leaseMs: number): Promise<boolean> {
+    return this.withLease(id, workerId, (job, now) => {
+      job.leaseExpiresAt = new Date(now.getTime() + leaseMs);
+    });
+  }
+
+  complete(id: string, workerId: string, result: unknown): Promise<boolean> {
+    return this.withLease(id, workerId, (job) => {
+      Object.assign(job, { state: "completed", result, error: null, leasedBy: null, leaseExpiresAt: null });
+    });
+  }
+
+  // Puts the job back for a retry, or marks it failed when it is out of
+  // attempts, `retryable` is false or the job's retryOn declines.
+  fail(id: string, workerId: string, error: unknown, retryable = true): Promise<boolean> {
+    return this.withLease(id, workerId, (job, now) => {
+      const retryOn = this.definitions[job.name]?.retry?.retryOn;
+      this.finishAttempt(job, now, errorMessage(error), retryable && (retryOn?.(error, job.attempts) ?? true));
+    });
+  }
+
+  private withLease(id: string, workerId: string, change: (job: Job, now: Date) => void): Promise<boolean> {
+    return this.store.transaction((jobs) => {
+      const job = jobs.find((j) => j.id === id);
+      if (!job || job.state !== "active" || job.leasedBy !== workerId) {
+        return false;
+      }
+      const now = this.now();
+      change(job, now);
+      job.updatedAt = now;
+      return true;
+    });
+  }
+
+  // The lost run is taken back off `attempts`, so a job without a retry
+  // policy still gets its one run.
+  private reclaim(job: Job, now: Date): void {
+    const stalls = job.stalls + 1;
+    const requeued = stalls <= this.maxStalls;
+    Object.assign(job, {
+      state: requeued ? "waiting" : "failed",
+      attempts: job.attempts - 1,
+      stalls,
+      runAt: requeued ? now : job.runAt,
+      error: requeued
+        ? `Lease held by ${job.leasedBy} expired`
+        : `Stalled ${stalls} times; the last lease was held by ${job.leasedBy}`,
+      leasedBy: null,
+      leaseExpiresAt: null,
+      updatedAt: now,
+    });
+  }
+
+  private finishAttempt(job: Job, now: Date, error: string, retryable: boolean): void {
+    const retry = this.definitions[job.name]?.retry;
+    const retrying = retry !== undefined && retryable && job.attempts < job.maxAttempts;
+    Object.assign(job, {
+      state: retrying ? "waiting" : "failed",
+      runAt: retrying ? new Date(now.getTime() + backoffDelay(retry, job.attempts)) : job.runAt,
+      error,
+      leasedBy: null,
+      leaseExpiresAt: null,
+      updatedAt: now,
+    });
+  }
+
+  private definition(name: string): JobDefinition {
+    const definition = this.definitions[name];
+    if (!definition) {
+      throw new Error(`Unknown job "${name}"`);
+    }
+    return definition;
+  }
+}
+
+export interface JobContext {
+  jobId: string;
+  // 1 on the first run, counting up with each retry.
+  attempt: number;
+  // Aborted when the worker loses the job's lease; stop work then, as the
+  // job may already be running elsewhere.
+  signal: AbortSignal;
+}
+
+export type JobHandlers<D extends JobDefinitions> = {
+  [N in JobName<D>]?: (payload: JobPayload<D, N>, context: JobContext) => Promise<unknown>;
+};
+
+export interface WorkerOptions<D extends JobDefinitions> {
+  // Only jobs with a handler here are leased by this worker.
+  handlers: JobHandlers<D>;
+  // Jobs run at once. Defaults to 1.
+  concurrency?: number;
+  // How long a job stays leased without a heartbeat. Defaults to 30_000.
+  leaseMs?: number;
+  // How long to wait before looking again when no job is due. Defaults to 1_000.
+  pollIntervalMs?: number;
+  id?: string;
+  // Store failures while polling or recording a result. Defaults to
+  // console.error.
+  onError?: (error: unknown) => void;
+}
+
+// Leases jobs from a JobQueue and runs them on a TaskQueue, extending each
+// lease every leaseMs / 2 until the handler settles.
+export class Worker<D extends JobDefinitions> {
+  readonly id: string;
+  private readonly tasks: TaskQueue;
+  private readonly concurrency: number;
+  private readonly leaseMs: number;
+  private readonly pollIntervalMs: number;
+  private readonly onError: (error: unknown) => void;
+  private running = false;
+  private loop: Promise<void> | undefined;
+  private wake: (() => void) | undefined;
+
+  constructor(
+    private readonly queue: JobQueue<D>,
+    private readonly options: WorkerOptions<D>,
+  ) {
+    this.id = options.id ?? `worker-${randomUUID()}`;
+    this.concurrency = options.concurrency ?? 1;
+    this.leaseMs = options.leaseMs ?? 30_000;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1_000;
+    this.onError = options.onError ?? ((error) => console.error(error));
+    this.tasks = new TaskQueue(this.concurrency);
+  }
+
+  start(): void {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.loop = this.poll();
+  }
+
+  // Stops leasing and waits for the jobs already running to finish.
+  async stop(): Promise<void> {
+    this.running = false;
+    this.wake?.();
+    await this.loop;
+    await this.tasks.onIdle();
+  }
+
+  private async poll(): Promise<void> {
+    const names = Object.keys(this.options.handlers);
+    while (this.running) {
+      if (this.tasks.pending + this.tasks.size >= this.concurrency) {
+        await this.sleep();
+        continue;
+      }
+
+      let job: Job | undefined;
+      try {
+        job = await this.queue.lease(names, this.id, this.leaseMs);
+      } catch (err) {
+        this.onError(err);
+      }
+      if (job) {
+        void this.process(job).finally(() => this.wake?.());
+      } else {
+        await this.sleep();
+      }
+    }
+  }
+
+  // Waits for pollIntervalMs, or less if a job finishes or stop() is called.
+  private sleep(): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(done, this.pollIntervalMs);
+      function done() {
+        clearTimeout(timer);
+        resolve();
+      }
+      this.wake = done;
+    });
+  }
+
+  private async process(job: Job): Promise<void> {
+    const name = job.name as JobName<D>;
+    const handler = this.options.handlers[name]!;
+    // Parsed again here, as the stored input may be from another process.
+    const parsed = this.queue.definitions[name]!.schema.safeParse(job.payload);
+    if (!parsed.success) {
+      // Retrying can't fix a payload the schema rejects.
+      await this.queue
+        .fail(job.id, this.id, new InvalidJobPayloadError(name, parsed.error.issues), false)
+        .catch(this.onError);
+      return;
+    }
+
+    const controller = new AbortController();
+    const heartbeat = setInterval(() => {
+      this.queue.extendLease(job.id, this.id, this.leaseMs).then((held) => {
+        if (!held) controller.abort(new Error(`Lost the lease on job "${job.id}"`));
+      }, this.onError);
+    }, this.leaseMs / 2);
+
+    let result: unknown;
+    try {
+      result = await this.tasks.add(
+        ({ signal }) => handler(parsed.data, { jobId: job.id, attempt: job.attempts, signal }),
+        { id: job.id, signal: controller.signal },
+      );
+    } catch (err) {
+      // With the lease lost, the job is someone else's to record.
+      if (!controller.signal.aborted) {
+        await this.queue.fail(job.id, this.id, err).catch(this.onError);
+      }
+      return;
+    } finally {
+      clearInterval(heartbeat);
+    }
+    // Outside the try: the handler succeeded, so a store failure here is no
+    // reason to fail (and maybe rerun) the job.
+    await this.queue.complete(job.id, this.id, result).catch(this.onError);
+  }
+}
@@ -0,0 +1,101 @@
+import { writeFileSync } from "node:fs";
+import { mkdtemp, readFile, rm, utimes, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import { JobQueue, Worker } from "./job-queue";
+import { FileJobStore } from "./job-store";
+
+const jobs = { "report.build": { schema: z.object({ month: z.string() }) } };
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "job-store-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("FileJobStore", () => {
+  it("keeps jobs across store instances", async () => {
+    const path = join(dir, "jobs.json");
+    const first = new JobQueue({ store: new FileJobStore(path), jobs });
+    await first.enqueue("report.build", { month: "2024-01" }, { id: "report" });
+    await first.lease(["report.build"], "w1", 60_000);
+
+    const second = new JobQueue({ store: new FileJobStore(path), jobs });
+    expect(await second.getJob("report")).toMatchObject({
+      state: "active",
+      leasedBy: "w1",
+      payload: { month: "2024-01" },
+      createdAt: expect.any(Date),
+    });
+  });
+
+  it("never leases one job twice across stores sharing a file", async () => {
+    const path = join(dir, "jobs.json");
+    const producer = new JobQueue({ store: new FileJobStore(path), jobs });
+    for (let i = 0; i < 5; i++) {
+      await producer.enqueue("report.build", { month: `2024-0${i + 1}` });
+    }
+
+    // Separate stores stand in for separate processes: they share nothing
+    // but the file and its lock.
+    const workers = ["w1", "w2", "w3"].map((id) => ({
+      id,
+      queue: new JobQueue({ store: new FileJobStore(path), jobs }),
+    }));
+    const leased = await Promise.all(
+      workers.flatMap(({ id, queue }) => [1, 2].map(() => queue.lease(["report.build"], id, 60_000))),
+    );
+
+    const ids = leased.flatMap((job) => (job ? [job.id] : []));
+    expect(ids).toHaveLength(5);
+    expect(new Set(ids).size).toBe(5);
+  });
+
+  it("hands workers a payload parsed from the stored input", async () => {
+    const path = join(dir, "jobs.json");
+    const queue = new JobQueue({
+      store: new FileJobStore(path),
+      jobs: { "invoice.send": { schema: z.object({ dueAt: z.coerce.date(), cents: z.string().transform(Number) }) } },
+    });
+    const seen: string[] = [];
+    const worker = new Worker(queue, {
+      handlers: {
+        "invoice.send": async ({ dueAt, cents }) => {
+          seen.push(`${dueAt.getTime()} ${cents.toFixed(2)}`);
+        },
+      },
+      pollIntervalMs: 5,
+    });
+
+    await queue.enqueue("invoice.send", { dueAt: new Date(86_400_000), cents: "1250" }, { id: "invoice" });
+    worker.start();
+    await vi.waitFor(async () => expect(await queue.getJob("invoice")).toMatchObject({ state: "completed" }));
+    await worker.stop();
+
+    expect(seen).toEqual(["86400000 1250.00"]);
+  });
+
+  it("breaks a stale lock but leaves a lock it no longer owns", async () => {
+    const path = join(dir, "jobs.json");
+    const store = new FileJobStore(path, { lockTimeoutMs: 1_000, staleLockMs: 60_000 });
+    // Left behind by a process that crashed an hour ago.
+    await writeFile(`${path}.lock`, "4242:crashed");
+    const anHourAgo = new Date(Date.now() - 3_600_000);
+    await utimes(`${path}.lock`, anHourAgo, anHourAgo);
+
+    await store.transaction((jobs) => {
+      expect(jobs).toEqual([]);
+      // As if this transaction ran past staleLockMs and another process broke
+      // the lock and took its own.
+      writeFileSync(`${path}.lock`, "4343:fresh");
+    });
+
+    expect(await readFile(`${path}.lock`, "utf8")).toBe("4343:fresh");
+  });
+});
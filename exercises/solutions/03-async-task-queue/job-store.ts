@@ -0,0 +1,224 @@
+// --- Job Store ---
+// Where JobQueue keeps its jobs. The queue's logic (leasing, reclaiming,
+// retrying) runs inside transaction() against plain job records, so a store
+// only has to make each transaction atomic and durable.
+
+import { randomUUID } from "node:crypto";
+import { z } from "zod";
+import { mkdir, open, readFile, rename, stat, unlink, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { isoDateSchema, jsonValueSchema } from "./json-schema";
+
+export const jobStates = ["waiting", "active", "completed", "failed"] as const;
+export type JobState = (typeof jobStates)[number];
+
+export interface Job {
+  id: string;
+  name: string;
+  payload: unknown;
+  state: JobState;
+  // Attempts started so far, including one that is running.
+  attempts: number;
+  // Runs lost to an expired lease; these don't count as attempts.
+  stalls: number;
+  maxAttempts: number;
+  // A waiting job isn't leased before this (delays and retry backoff).
+  runAt: Date;
+  // Set while active: the worker holding the job and until when. A job whose
+  // lease has run out is reclaimed by the next lease() call.
+  leasedBy: string | null;
+  leaseExpiresAt: Date | null;
+  // The handler's return value once completed; must be JSON-serializable.
+  result?: unknown;
+  // The last attempt's error message.
+  error: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface JobStore {
+  // A snapshot; changing it changes nothing.
+  read(): Promise<Job[]>;
+  // Runs `fn` on the stored jobs, which it may change in place or add to,
+  // with no other transaction in between, then persists the result.
+  transaction<R>(fn: (jobs: Job[]) => R): Promise<R>;
+  close(): Promise<void>;
+}
+
+const cloneJob = (job: Job): Job => ({ ...job });
+
+export class InMemoryJobStore implements JobStore {
+  private jobs: Job[] = [];
+
+  async read(): Promise<Job[]> {
+    return this.jobs.map(cloneJob);
+  }
+
+  // `fn` is synchronous, so nothing can run between it starting and ending.
+  async transaction<R>(fn: (jobs: Job[]) => R): Promise<R> {
+    return fn(this.jobs);
+  }
+
+  async close(): Promise<void> {}
+}
+
+// The jobs file, which any process sharing it may have written, so every
+// job is checked rather than trusted.
+const jobFileSchema = z.object({
+  jobs: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      payload: jsonValueSchema,
+      state: z.enum(jobStates),
+      attempts: z.number().int().nonnegative(),
+      stalls: z.number().int().nonnegative(),
+      maxAttempts: z.number().int().positive(),
+      runAt: isoDateSchema,
+      leasedBy: z.string().nullable(),
+      leaseExpiresAt: isoDateSchema.nullable(),
+      result: jsonValueSchema.optional(),
+      error: z.string().nullable(),
+      createdAt: isoDateSchema,
+      updatedAt: isoDateSchema,
+    }),
+  ),
+});
+
+export interface FileJobStoreOptions {
+  // How long to wait for another process's lock before giving up.
+  lockTimeoutMs?: number;
+  // A lock file older than this is assumed to belong to a crashed process
+  // and is broken.
+  staleLockMs?: number;
+}
+
+// Keeps jobs in a JSON file that several processes may share. Every
+// transaction takes a lock file (created with O_EXCL, so only one process
+// can hold it, and holding a token that names the holder), re-reads the
+// file, applies the change and renames a temp file over it. Readers take no
+// lock: they see the jobs from before a transaction or after, never a mix.
+export class FileJobStore implements JobStore {
+  private readonly lockPath: string;
+  private readonly lockTimeoutMs: number;
+  private readonly staleLockMs: number;
+  private transactions: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    options: FileJobStoreOptions = {},
+  ) {
+    this.lockPath = `${filePath}.lock`;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 5_000;
+    this.staleLockMs = options.staleLockMs ?? 30_000;
+  }
+
+  // Renames are atomic, so reading needs no lock.
+  async read(): Promise<Job[]> {
+    return this.load();
+  }
+
+  // Chained in-process as well, so this process doesn't contend with itself
+  // for the lock file.
+  transaction<R>(fn: (jobs: Job[]) => R): Promise<R> {
+    const run = this.transactions.then(() =>
+      this.withLock(async () => {
+        const jobs = await this.load();
+        const result = fn(jobs);
+        await this.save(jobs);
+        return result;
+      }),
+    );
+    this.transactions = run.catch(() => {});
+    return run;
+  }
+
+  async close(): Promise<void> {
+    await this.transactions;
+  }
+
+  private async load(): Promise<Job[]> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return []; // first run — start empty
+      }
+      throw err;
+    }
+    return jobFileSchema.parse(JSON.parse(raw)).jobs;
+  }
+
+  private async save(jobs: Job[]): Promise<void> {
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await writeFile(tmpPath, JSON.stringify({ jobs }, null, 2), "utf8");
+    await rename(tmpPath, this.filePath);
+  }
+
+  private async withLock<R>(fn: () => Promise<R>): Promise<R> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    const deadline = Date.now() + this.lockTimeoutMs;
+
+    const token = `${process.pid}:${randomUUID()}`;
+    for (;;) {
+      try {
+        const handle = await open(this.lockPath, "wx");
+        try {
+          await handle.writeFile(token, "utf8");
+        } finally {
+          await handle.close();
+        }
+        break;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw err;
+        }
+      }
+
+      if (await this.breakStaleLock()) {
+        continue;
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for the job store lock at ${this.lockPath}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+
+    try {
+      return await fn();
+    } finally {
+      // If we took so long that our lock was broken as stale, the lock file
+      // is now someone else's and stays.
+      await this.unlinkLock(token).catch(() => {});
+    }
+  }
+
+  private async breakStaleLock(): Promise<boolean> {
+    try {
+      // Read before stat(), so a lock replaced in between looks fresh.
+      const owner = await readFile(this.lockPath, "utf8");
+      const { mtimeMs } = await stat(this.lockPath);
+      if (Date.now() - mtimeMs < this.staleLockMs) {
+        return false;
+      }
+      // Another process may have broken the same lock and taken a new one
+      // meanwhile; unlinkLock() leaves that one alone.
+      await this.unlinkLock(owner);
+      return true;
+    } catch (err) {
+      // Released between our open() and reading it: just try again.
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return true;
+      }
+      throw err;
+    }
+  }
+
+  // Removes the lock file only while it still holds `token`.
+  private async unlinkLock(token: string): Promise<void> {
+    if ((await readFile(this.lockPath, "utf8")) === token) {
+      await unlink(this.lockPath);
+    }
+  }
+}
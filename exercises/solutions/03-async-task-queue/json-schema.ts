@@ -0,0 +1,19 @@
+// --- JSON Schemas ---
+// Zod schemas for reading back what the file-backed stores wrote with
+// JSON.stringify.
+
+import { z } from "zod";
+
+export type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+// Any value JSON.parse can return. Unlike z.unknown() it rejects undefined,
+// so an object key using it stays required in the inferred type.
+export const jsonValueSchema: z.ZodType<JsonValue> = z.lazy(() =>
+  z.union([z.string(), z.number(), z.boolean(), z.null(), z.array(jsonValueSchema), z.record(jsonValueSchema)]),
+);
+
+// JSON.stringify writes a Date with toISOString(), always in UTC.
+export const isoDateSchema = z
+  .string()
+  .datetime()
+  .transform((value) => new Date(value));
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { backoffDelay, validateRetryPolicy } from "./retry-policy";
+
+describe("backoffDelay", () => {
+  it("doubles from backoffMs up to maxBackoffMs", () => {
+    const policy = { attempts: 10, backoffMs: 100, maxBackoffMs: 1_000, jitter: 0 };
+    expect([1, 2, 3, 4, 5].map((attempt) => backoffDelay(policy, attempt))).toEqual([100, 200, 400, 800, 1_000]);
+  });
+
+  it("takes up to `jitter` of the delay off at random", () => {
+    const policy = { attempts: 3, backoffMs: 1_000, jitter: 0.5 };
+    expect(backoffDelay(policy, 1, () => 0)).toBe(1_000);
+    expect(backoffDelay(policy, 1, () => 0.5)).toBe(750);
+    expect(backoffDelay(policy, 2, () => 0.999)).toBe(1_001);
+  });
+});
+
+describe("validateRetryPolicy", () => {
+  it("rejects policies that can't work", () => {
+    expect(() => validateRetryPolicy({ attempts: 0 })).toThrow(RangeError);
+    expect(() => validateRetryPolicy({ attempts: 1.5 })).toThrow(RangeError);
+    expect(() => validateRetryPolicy({ attempts: 3, backoffMs: -1 })).toThrow(RangeError);
+    expect(() => validateRetryPolicy({ attempts: 3, backoffMs: 500, maxBackoffMs: 100 })).toThrow(RangeError);
+    expect(() => validateRetryPolicy({ attempts: 3, jitter: 2 })).toThrow(RangeError);
+    expect(() => validateRetryPolicy({ attempts: 3 })).not.toThrow();
+  });
+});
@@ -0,0 +1,45 @@
+// --- Retry Policy ---
+// How often a failed task is tried again and how long to wait in between:
+// exponential backoff, capped, with jitter so that tasks which failed
+// together (a dependency going down) don't all retry at the same moment.
+
+export interface RetryPolicy {
+  // Total attempts, including the first. 1 means no retries.
+  attempts: number;
+  // Delay before the first retry; it doubles with every further failure.
+  // Defaults to 100.
+  backoffMs?: number;
+  // Upper bound for a single delay. Defaults to 30_000.
+  maxBackoffMs?: number;
+  // Share of each delay that is random, from 0 (exact delays) to 1 (anywhere
+  // between 0 and the full delay). Defaults to 0.5.
+  jitter?: number;
+  // Return false for errors that retrying can't fix (bad input, 4xx
+  // responses). `attempt` is the one that just failed. Defaults to retrying
+  // every error.
+  retryOn?: (error: unknown, attempt: number) => boolean;
+}
+
+export function validateRetryPolicy(policy: RetryPolicy): void {
+  const { attempts, backoffMs = 100, maxBackoffMs = 30_000, jitter = 0.5 } = policy;
+  if (!Number.isInteger(attempts) || attempts < 1) {
+    throw new RangeError(`Retry attempts must be a positive integer, got ${attempts}`);
+  }
+  if (!Number.isFinite(backoffMs) || backoffMs < 0) {
+    throw new RangeError(`Retry backoffMs must be a non-negative number, got ${backoffMs}`);
+  }
+  if (!Number.isFinite(maxBackoffMs) || maxBackoffMs < backoffMs) {
+    throw new RangeError(`Retry maxBackoffMs must be at least backoffMs, got ${maxBackoffMs}`);
+  }
+  if (!(jitter >= 0 && jitter <= 1)) {
+    throw new RangeError(`Retry jitter must be between 0 and 1, got ${jitter}`);
+  }
+}
+
+// Milliseconds to wait after `attempt` (1-based) failed. `random` returns a
+// number in [0, 1) and is only there for tests.
+export function backoffDelay(policy: RetryPolicy, attempt: number, random: () => number = Math.random): number {
+  const { backoffMs = 100, maxBackoffMs = 30_000, jitter = 0.5 } = policy;
+  const delay = Math.min(maxBackoffMs, backoffMs * 2 ** (attempt - 1));
+  return Math.round(delay * (1 - jitter * random()));
+}
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { ManualClock } from "./clock";
+import { CronParseError } from "./cron";
+import { Scheduler } from "./scheduler";
+import { TaskQueue } from "./task-queue";
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((res) => (resolve = res));
+  return { promise, resolve };
+}
+
+function setup() {
+  const clock = new ManualClock(new Date("2024-01-01T00:00:00Z"));
+  const scheduler = new Scheduler(new TaskQueue(4), clock);
+  return { clock, scheduler };
+}
+
+describe("Scheduler", () => {
+  it("runs an interval schedule on a fixed grid and records each run", async () => {
+    const { clock, scheduler } = setup();
+    const runs: string[] = [];
+    scheduler.schedule({
+      name: "cleanup",
+      everyMs: 60_000,
+      task: async () => {
+        runs.push(clock.now().toISOString());
+      },
+    });
+    scheduler.start();
+    expect(scheduler.status("cleanup")?.nextRunAt).toEqual(new Date("2024-01-01T00:01:00Z"));
+
+    await clock.advance(3 * 60_000);
+    expect(runs).toEqual(["2024-01-01T00:01:00.000Z", "2024-01-01T00:02:00.000Z", "2024-01-01T00:03:00.000Z"]);
+    expect(scheduler.status("cleanup")).toMatchObject({
+      runs: 3,
+      skipped: 0,
+      running: false,
+      nextRunAt: new Date("2024-01-01T00:04:00Z"),
+      lastRun: {
+        scheduledAt: new Date("2024-01-01T00:03:00Z"),
+        startedAt: new Date("2024-01-01T00:03:00Z"),
+        outcome: "completed",
+      },
+    });
+  });
+
+  it("follows cron expressions", async () => {
+    const { clock, scheduler } = setup();
+    const runs: string[] = [];
+    scheduler.schedule({
+      name: "report",
+      cron: "30 2 * * *",
+      task: async () => {
+        runs.push(clock.now().toISOString());
+      },
+    });
+    scheduler.start();
+
+    await clock.advance(2 * 24 * 60 * 60_000);
+    expect(runs).toEqual(["2024-01-01T02:30:00.000Z", "2024-01-02T02:30:00.000Z"]);
+    expect(scheduler.status("report")?.nextRunAt).toEqual(new Date("2024-01-03T02:30:00Z"));
+  });
+
+  it("skips a run while the previous one is still going", async () => {
+    const { clock, scheduler } = setup();
+    const slow = deferred();
+    let calls = 0;
+    scheduler.schedule({
+      name: "sync",
+      everyMs: 1_000,
+      task: () => {
+        calls++;
+        return slow.promise;
+      },
+    });
+    scheduler.start();
+
+    await clock.advance(3_000);
+    expect(calls).toBe(1);
+    expect(scheduler.status("sync")).toMatchObject({ running: true, runs: 1, skipped: 2 });
+
+    slow.resolve();
+    await clock.advance(1_000);
+    expect(calls).toBe(2);
+  });
+
+  it("records failures and keeps scheduling", async () => {
+    const { clock, scheduler } = setup();
+    scheduler.schedule({
+      name: "flaky",
+      everyMs: 1_000,
+      task: async () => {
+        throw new Error("upstream down");
+      },
+    });
+    scheduler.start();
+
+    await clock.advance(2_000);
+    expect(scheduler.status("flaky")).toMatchObject({
+      runs: 2,
+      lastRun: { outcome: "failed", error: "upstream down" },
+    });
+  });
+
+  it("stops arming timers on stop() and unschedule()", async () => {
+    const { clock, scheduler } = setup();
+    let calls = 0;
+    const task = async () => {
+      calls++;
+    };
+    scheduler.schedule({ name: "a", everyMs: 1_000, task });
+    scheduler.schedule({ name: "b", everyMs: 1_000, task });
+    scheduler.start();
+
+    expect(scheduler.unschedule("a")).toBe(true);
+    await clock.advance(1_000);
+    expect(calls).toBe(1);
+
+    await scheduler.stop();
+    await clock.advance(5_000);
+    expect(calls).toBe(1);
+    expect(scheduler.list()).toEqual([expect.objectContaining({ name: "b", nextRunAt: null })]);
+  });
+
+  it("rejects bad schedules", () => {
+    const { scheduler } = setup();
+    const task = async () => {};
+    expect(() => scheduler.schedule({ name: "x", cron: "every minute", task })).toThrow(CronParseError);
+    expect(() => scheduler.schedule({ name: "x", everyMs: 0, task })).toThrow(RangeError);
+    scheduler.schedule({ name: "x", everyMs: 1_000, task });
+    expect(() => scheduler.schedule({ name: "x", everyMs: 1_000, task })).toThrow('Schedule "x" already exists');
+  });
+});
@@ -0,0 +1,199 @@
+// --- Scheduler ---
+// Recurring tasks, on a cron expression or a fixed interval, run through a
+// TaskQueue so they share its concurrency, priorities and retries with
+// everything else. A schedule never overlaps itself: if its previous run is
+// still queued or running when the next one is due, that run is skipped and
+// counted, not stacked up.
+//
+// Interval schedules keep to a fixed grid (start + n * everyMs), so a slow
+// run doesn't push later ones back. Time comes from an injectable Clock;
+// tests drive it with a ManualClock.
+
+import { Clock, systemClock, TimerHandle } from "./clock";
+import { CronSchedule, nextCronTime, parseCron } from "./cron";
+import { Task, TaskOptions, TaskQueue } from "./task-queue";
+
+export type ScheduleTiming = { cron: string } | { everyMs: number };
+
+export type ScheduleOptions = ScheduleTiming & {
+  name: string;
+  task: Task<unknown>;
+  // Passed on to TaskQueue.add() for every run.
+  taskOptions?: Pick<TaskOptions, "priority" | "timeoutMs" | "retry" | "key">;
+};
+
+export interface ScheduleRun {
+  scheduledAt: Date;
+  // Null when the run never started, e.g. the queue was cleared.
+  startedAt: Date | null;
+  finishedAt: Date;
+  outcome: "completed" | "failed";
+  error?: string;
+}
+
+export interface ScheduleStatus {
+  name: string;
+  // The cron expression, or "every <n>ms".
+  timing: string;
+  // Whether a run is queued or running right now.
+  running: boolean;
+  // Null while the scheduler is stopped.
+  nextRunAt: Date | null;
+  lastRun: ScheduleRun | null;
+  runs: number;
+  // Runs skipped because the previous one hadn't finished.
+  skipped: number;
+}
+
+interface ScheduleEntry {
+  options: ScheduleOptions;
+  cron: CronSchedule | undefined;
+  status: ScheduleStatus;
+  timer: TimerHandle | undefined;
+  current: Promise<void> | undefined;
+}
+
+// setTimeout fires at once for delays beyond this; longer waits re-arm.
+const maxTimerDelayMs = 2 ** 31 - 1;
+
+export class Scheduler {
+  private schedules = new Map<string, ScheduleEntry>();
+  private started = false;
+
+  constructor(
+    private readonly queue: TaskQueue,
+    private readonly clock: Clock = systemClock,
+  ) {}
+
+  schedule(options: ScheduleOptions): void {
+    if (this.schedules.has(options.name)) {
+      throw new Error(`Schedule "${options.name}" already exists`);
+    }
+    let cron: CronSchedule | undefined;
+    let timing: string;
+    if ("cron" in options) {
+      cron = parseCron(options.cron);
+      timing = options.cron;
+    } else {
+      if (!(options.everyMs > 0 && Number.isFinite(options.everyMs))) {
+        throw new RangeError(`Schedule everyMs must be a positive number, got ${options.everyMs}`);
+      }
+      timing = `every ${options.everyMs}ms`;
+    }
+
+    const entry: ScheduleEntry = {
+      options,
+      cron,
+      status: { name: options.name, timing, running: false, nextRunAt: null, lastRun: null, runs: 0, skipped: 0 },
+      timer: undefined,
+      current: undefined,
+    };
+    this.schedules.set(options.name, entry);
+    if (this.started) {
+      this.arm(entry, this.nextRunAfter(entry, this.clock.now()));
+    }
+  }
+
+  // A run that is already queued or running carries on.
+  unschedule(name: string): boolean {
+    const entry = this.schedules.get(name);
+    if (!entry) {
+      return false;
+    }
+    this.disarm(entry);
+    return this.schedules.delete(name);
+  }
+
+  start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    const now = this.clock.now();
+    this.schedules.forEach((entry) => this.arm(entry, this.nextRunAfter(entry, now)));
+  }
+
+  // Stops scheduling and waits for runs that are already queued or running.
+  async stop(): Promise<void> {
+    this.started = false;
+    this.schedules.forEach((entry) => this.disarm(entry));
+    await Promise.all([...this.schedules.values()].map((entry) => entry.current));
+  }
+
+  status(name: string): ScheduleStatus | undefined {
+    const entry = this.schedules.get(name);
+    return entry && { ...entry.status };
+  }
+
+  list(): ScheduleStatus[] {
+    return [...this.schedules.values()].map((entry) => ({ ...entry.status }));
+  }
+
+  private nextRunAfter(entry: ScheduleEntry, after: Date, previous?: Date): Date {
+    if (entry.cron) {
+      return nextCronTime(entry.cron, after);
+    }
+    const everyMs = (entry.options as { everyMs: number }).everyMs;
+    if (!previous) {
+      return new Date(after.getTime() + everyMs);
+    }
+    // Whole intervals missed (a stalled event loop, a suspended laptop) are
+    // dropped rather than run back to back.
+    const behind = Math.max(0, after.getTime() - previous.getTime());
+    return new Date(previous.getTime() + (Math.floor(behind / everyMs) + 1) * everyMs);
+  }
+
+  private arm(entry: ScheduleEntry, at: Date): void {
+    entry.status.nextRunAt = at;
+    const delay = Math.min(maxTimerDelayMs, at.getTime() - this.clock.now().getTime());
+    entry.timer = this.clock.setTimeout(() => {
+      if (this.clock.now() < at) {
+        this.arm(entry, at);
+      } else {
+        this.tick(entry, at);
+      }
+    }, delay);
+  }
+
+  private disarm(entry: ScheduleEntry): void {
+    if (entry.timer !== undefined) {
+      this.clock.clearTimeout(entry.timer);
+      entry.timer = undefined;
+    }
+    entry.status.nextRunAt = null;
+  }
+
+  private tick(entry: ScheduleEntry, scheduledAt: Date): void {
+    const now = this.clock.now();
+    this.arm(entry, this.nextRunAfter(entry, now, scheduledAt));
+
+    const { status } = entry;
+    if (entry.current) {
+      status.skipped++;
+      return;
+    }
+
+    status.runs++;
+    status.running = true;
+    let startedAt: Date | null = null;
+    const { name, task, taskOptions } = entry.options;
+    const finish = (run: Pick<ScheduleRun, "outcome" | "error">) => {
+      status.lastRun = { scheduledAt, startedAt, finishedAt: this.clock.now(), ...run };
+      status.running = false;
+      entry.current = undefined;
+    };
+
+    entry.current = this.queue
+      .add(
+        (context) => {
+          startedAt = this.clock.now();
+          return task(context);
+        },
+        { ...taskOptions, id: `${name}@${scheduledAt.toISOString()}` },
+      )
+      .then(
+        () => finish({ outcome: "completed" }),
+        (err: unknown) => finish({ outcome: "failed", error: err instanceof Error ? err.message : String(err) }),
+      );
+  }
+}
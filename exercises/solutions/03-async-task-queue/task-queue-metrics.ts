@@ -0,0 +1,33 @@
+// --- Task Queue Metrics ---
+// Saturation gauges for any number of queues, labelled by queue name. The
+// values are read from the queues on each scrape rather than tracked.
+
+import type { MetricsRegistry } from "../shared/metrics";
+import type { TaskQueue } from "./task-queue";
+
+export interface TaskQueueMetrics {
+  track(name: string, queue: TaskQueue): void;
+}
+
+export function createTaskQueueMetrics(registry: MetricsRegistry): TaskQueueMetrics {
+  const queues = new Map<string, TaskQueue>();
+
+  registry.gauge({
+    name: "task_queue_running",
+    help: "Tasks currently running",
+    labelNames: ["queue"],
+    collect: (gauge) => queues.forEach((queue, name) => gauge.set({ queue: name }, queue.pending)),
+  });
+  registry.gauge({
+    name: "task_queue_queued",
+    help: "Tasks waiting to start, including delayed ones",
+    labelNames: ["queue"],
+    collect: (gauge) => queues.forEach((queue, name) => gauge.set({ queue: name }, queue.size)),
+  });
+
+  return {
+    track(name, queue) {
+      queues.set(name, queue);
+    },
+  };
+}
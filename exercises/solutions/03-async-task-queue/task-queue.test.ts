@@ -0,0 +1,517 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AbortError, TaskQueue, TimeoutError } from "./task-queue";
+
+// Tasks are deferreds the test settles by hand, so the order in which the
+// queue starts them is observable without real timing.
+
+function deferred<T = void>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+// Lets the queue react to settled tasks before the test looks again.
+const flush = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+// setImmediate stays real so flush() keeps working.
+const useFakeTimers = () => vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "Date"] });
+
+let started: string[];
+
+function recorder() {
+  const blockers = new Map<string, ReturnType<typeof deferred<void>>>();
+  const task = (label: string) => () => {
+    started.push(label);
+    const blocker = deferred();
+    blockers.set(label, blocker);
+    return blocker.promise.then(() => label);
+  };
+  const finish = async (label: string) => {
+    blockers.get(label)!.resolve();
+    await flush();
+  };
+  return { task, finish };
+}
+
+beforeEach(() => {
+  started = [];
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("TaskQueue", () => {
+  it("runs at most `concurrency` tasks at once", async () => {
+    const queue = new TaskQueue(2);
+    const { task, finish } = recorder();
+
+    const results = ["a", "b", "c"].map((label) => queue.add(task(label)));
+    expect(started).toEqual(["a", "b"]);
+    expect([queue.pending, queue.size]).toEqual([2, 1]);
+
+    await finish("b");
+    expect(started).toEqual(["a", "b", "c"]);
+
+    await finish("a");
+    await finish("c");
+    expect(await Promise.all(results)).toEqual(["a", "b", "c"]);
+  });
+
+  it("starts higher priorities first and keeps each priority FIFO", async () => {
+    const queue = new TaskQueue(1);
+    const { task, finish } = recorder();
+
+    queue.add(task("blocker"));
+    queue.add(task("low"), { priority: -1 });
+    queue.add(task("normal-1"));
+    queue.add(task("urgent"), { priority: 10 });
+    queue.add(task("normal-2"));
+
+    for (const label of ["blocker", "urgent", "normal-1", "normal-2"]) {
+      await finish(label);
+    }
+    expect(started).toEqual(["blocker", "urgent", "normal-1", "normal-2", "low"]);
+  });
+
+  it("holds delayed tasks back until their delay has passed", async () => {
+    useFakeTimers();
+    const queue = new TaskQueue(1);
+    const { task, finish } = recorder();
+
+    queue.add(task("blocker"));
+    queue.add(task("delayed"), { delayMs: 1_000, priority: 5 });
+    queue.add(task("queued"));
+    expect(queue.size).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(started).toEqual(["blocker"]);
+
+    // Both are runnable now; the delayed one wins on priority.
+    await finish("blocker");
+    expect(started).toEqual(["blocker", "delayed"]);
+  });
+
+  it("starts a delayed task right away if a slot is free", async () => {
+    useFakeTimers();
+    const queue = new TaskQueue(1);
+    const { task } = recorder();
+
+    queue.add(task("later"), { delayMs: 500 });
+    await vi.advanceTimersByTimeAsync(499);
+    expect(started).toEqual([]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(started).toEqual(["later"]);
+  });
+
+  it("rejects a duplicate id while the first task is waiting or running", async () => {
+    const queue = new TaskQueue(1);
+    const { task, finish } = recorder();
+
+    const first = queue.add(task("first"), { id: "report" });
+    await expect(queue.add(task("again"), { id: "report" })).rejects.toThrow('Task "report" is already queued or running');
+
+    await finish("first");
+    await first;
+    const second = queue.add(task("second"), { id: "report" });
+    await finish("second");
+    expect(await second).toBe("second");
+  });
+
+  it("rejects invalid options", async () => {
+    const queue = new TaskQueue(1);
+    await expect(queue.add(async () => 1, { priority: Number.NaN })).rejects.toThrow(RangeError);
+    await expect(queue.add(async () => 1, { delayMs: -1 })).rejects.toThrow(RangeError);
+  });
+
+  describe("cancellation", () => {
+    it("removes an aborted waiting task without running it", async () => {
+      const queue = new TaskQueue(1);
+      const { task, finish } = recorder();
+      const controller = new AbortController();
+
+      queue.add(task("blocker"));
+      const cancelled = queue.add(task("cancelled"), { signal: controller.signal });
+      const next = queue.add(task("next"));
+
+      controller.abort(new Error("user left"));
+      await expect(cancelled).rejects.toBeInstanceOf(AbortError);
+      await expect(cancelled).rejects.toMatchObject({ cause: new Error("user left") });
+      expect(queue.size).toBe(1);
+
+      await finish("blocker");
+      await finish("next");
+      expect(await next).toBe("next");
+      expect(started).toEqual(["blocker", "next"]);
+    });
+
+    it("cancels a delayed task and rejects an already aborted signal", async () => {
+      useFakeTimers();
+      const queue = new TaskQueue(1);
+      const { task } = recorder();
+      const controller = new AbortController();
+
+      const delayed = queue.add(task("delayed"), { delayMs: 1_000, signal: controller.signal });
+      controller.abort();
+      await expect(delayed).rejects.toThrow('Task "task-1" was aborted');
+      expect(queue.size).toBe(0);
+
+      await vi.advanceTimersByTimeAsync(1_000);
+      expect(started).toEqual([]);
+
+      await expect(queue.add(task("late"), { signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+    });
+
+    it("aborts a running task's signal and frees its slot at once", async () => {
+      const queue = new TaskQueue(1);
+      const { task, finish } = recorder();
+      const controller = new AbortController();
+      let seen: AbortSignal | undefined;
+
+      // Ignores its signal and never settles on its own.
+      const stubborn = queue.add(
+        ({ signal }) => {
+          seen = signal;
+          return new Promise<never>(() => {});
+        },
+        { signal: controller.signal },
+      );
+      const next = queue.add(task("next"));
+
+      controller.abort();
+      await expect(stubborn).rejects.toBeInstanceOf(AbortError);
+      expect(seen?.aborted).toBe(true);
+      expect(started).toEqual(["next"]);
+      expect(queue.pending).toBe(1);
+
+      await finish("next");
+      await next;
+      expect(queue.pending).toBe(0);
+    });
+
+    it("times out a running task with a TimeoutError", async () => {
+      useFakeTimers();
+      const queue = new TaskQueue(1);
+      const { task, finish } = recorder();
+
+      const slow = queue.add(task("slow"), { timeoutMs: 100, id: "slow" });
+      const next = queue.add(task("next"));
+      const rejection = expect(slow).rejects.toThrow(new TimeoutError('Task "slow" timed out after 100ms'));
+
+      await vi.advanceTimersByTimeAsync(100);
+      await rejection;
+      expect(started).toEqual(["slow", "next"]);
+
+      // The slow task finishing late changes nothing.
+      await finish("slow");
+      expect(queue.pending).toBe(1);
+      await finish("next");
+      expect(await next).toBe("next");
+    });
+  });
+
+  describe("pause, drain and events", () => {
+    it("starts nothing while paused and catches up on resume", async () => {
+      const queue = new TaskQueue(2);
+      const { task, finish } = recorder();
+
+      queue.add(task("a"));
+      queue.pause();
+      queue.add(task("b"));
+      queue.add(task("c"));
+      await finish("a");
+      expect(started).toEqual(["a"]);
+      expect([queue.isPaused, queue.pending, queue.size]).toEqual([true, 0, 2]);
+
+      queue.resume();
+      expect(started).toEqual(["a", "b", "c"]);
+    });
+
+    it("resolves onEmpty when nothing waits and onIdle when nothing runs", async () => {
+      const queue = new TaskQueue(1);
+      const { task, finish } = recorder();
+      const resolved: string[] = [];
+
+      await queue.onIdle();
+      queue.add(task("a"));
+      queue.add(task("b"));
+      void queue.onEmpty().then(() => resolved.push("empty"));
+      void queue.onIdle().then(() => resolved.push("idle"));
+
+      await finish("a");
+      expect(resolved).toEqual(["empty"]);
+      await finish("b");
+      expect(resolved).toEqual(["empty", "idle"]);
+    });
+
+    it("clear() rejects waiting and delayed tasks but leaves running ones", async () => {
+      const queue = new TaskQueue(1);
+      const { task, finish } = recorder();
+
+      const running = queue.add(task("running"));
+      const waiting = queue.add(task("waiting"), { id: "waiting" });
+      const delayed = queue.add(task("delayed"), { delayMs: 1_000 });
+      const idle = queue.onIdle();
+
+      expect(queue.clear()).toBe(2);
+      await expect(waiting).rejects.toThrow(new AbortError('Task "waiting" was cleared from the queue'));
+      await expect(delayed).rejects.toBeInstanceOf(AbortError);
+      expect(queue.size).toBe(0);
+
+      await finish("running");
+      expect(await running).toBe("running");
+      await idle;
+      expect(started).toEqual(["running"]);
+    });
+
+    it("emits lifecycle events with durations", async () => {
+      useFakeTimers();
+      const queue = new TaskQueue(1);
+      const { task, finish } = recorder();
+      const events: unknown[] = [];
+      queue.events.on("task.queued", (event) => events.push(["queued", event]));
+      queue.events.on("task.started", (event) => events.push(["started", event]));
+      queue.events.on("task.completed", (event) => events.push(["completed", event]));
+      queue.events.on("task.failed", (event) => events.push(["failed", event]));
+
+      const ok = queue.add(task("ok"), { id: "ok" });
+      const failing = queue.add(() => Promise.reject(new Error("boom")), { id: "failing", priority: 1 });
+      const rejection = expect(failing).rejects.toThrow("boom");
+      await vi.advanceTimersByTimeAsync(30);
+      await finish("ok");
+      await ok;
+      await rejection;
+
+      expect(events).toEqual([
+        ["queued", { id: "ok", priority: 0, delayMs: 0 }],
+        ["started", { id: "ok", attempt: 1, waitMs: 0 }],
+        ["queued", { id: "failing", priority: 1, delayMs: 0 }],
+        ["completed", { id: "ok", durationMs: 30 }],
+        ["started", { id: "failing", attempt: 1, waitMs: 30 }],
+        ["failed", { id: "failing", durationMs: 0, error: new Error("boom") }],
+      ]);
+    });
+  });
+
+  describe("retries and dead letters", () => {
+    // Fails until `failures` attempts have been made, then returns the attempt.
+    function flaky(failures: number) {
+      const seen: number[] = [];
+      const task = async ({ attempt }: { attempt: number }) => {
+        seen.push(attempt);
+        if (attempt <= failures) {
+          throw new Error(`attempt ${attempt} failed`);
+        }
+        return attempt;
+      };
+      return { task, seen };
+    }
+
+    it("retries with exponential backoff until an attempt succeeds", async () => {
+      useFakeTimers();
+      const queue = new TaskQueue(1);
+      const { task, seen } = flaky(2);
+      const retries: unknown[] = [];
+      queue.events.on("task.retrying", ({ attempt, delayMs }) => retries.push({ attempt, delayMs }));
+
+      const result = queue.add(task, { retry: { attempts: 3, backoffMs: 100, jitter: 0 } });
+      await flush();
+      expect(seen).toEqual([1]);
+      await vi.advanceTimersByTimeAsync(99);
+      expect(seen).toEqual([1]);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(seen).toEqual([1, 2]);
+      await vi.advanceTimersByTimeAsync(200);
+
+      expect(await result).toBe(3);
+      expect(retries).toEqual([
+        { attempt: 1, delayMs: 100 },
+        { attempt: 2, delayMs: 200 },
+      ]);
+      expect(queue.deadLetters()).toEqual([]);
+    });
+
+    it("frees the slot during the backoff", async () => {
+      useFakeTimers();
+      const queue = new TaskQueue(1);
+      const { task: other, finish } = recorder();
+
+      const failing = queue.add(flaky(1).task, { retry: { attempts: 2, backoffMs: 100, jitter: 0 } });
+      queue.add(other("other"));
+      await flush();
+      expect(started).toEqual(["other"]);
+      expect([queue.pending, queue.size]).toEqual([1, 1]);
+
+      await finish("other");
+      await vi.advanceTimersByTimeAsync(100);
+      expect(await failing).toBe(2);
+    });
+
+    it("retries timeouts but not errors that retryOn declines", async () => {
+      useFakeTimers();
+      const queue = new TaskQueue(1);
+      const retryOn = vi.fn((error: unknown, _attempt: number) => error instanceof TimeoutError);
+      let calls = 0;
+
+      const result = queue.add(
+        async ({ attempt }) => {
+          calls++;
+          if (attempt === 1) {
+            return new Promise<never>(() => {});
+          }
+          throw new Error("bad input");
+        },
+        { id: "job", timeoutMs: 50, retry: { attempts: 5, backoffMs: 10, jitter: 0, retryOn } },
+      );
+      const rejection = expect(result).rejects.toThrow("bad input");
+
+      await vi.advanceTimersByTimeAsync(60);
+      await rejection;
+      expect(calls).toBe(2);
+      expect(retryOn.mock.calls.map(([, attempt]) => attempt)).toEqual([1, 2]);
+    });
+
+    it("dead-letters a task that runs out of attempts and can requeue it", async () => {
+      useFakeTimers();
+      vi.setSystemTime(0);
+      const queue = new TaskQueue(1);
+      const { task, seen } = flaky(3);
+      const deadLettered: string[] = [];
+      queue.events.on("task.dead-lettered", ({ id }) => deadLettered.push(id));
+
+      const result = queue.add(task, { id: "job", retry: { attempts: 2, backoffMs: 100, jitter: 0 } });
+      const rejection = expect(result).rejects.toThrow("attempt 2 failed");
+      await vi.advanceTimersByTimeAsync(100);
+      await rejection;
+
+      expect(deadLettered).toEqual(["job"]);
+      expect(queue.deadLetters()).toEqual([
+        {
+          id: "job",
+          error: new Error("attempt 2 failed"),
+          attempts: [
+            { attempt: 1, error: new Error("attempt 1 failed"), durationMs: 0 },
+            { attempt: 2, error: new Error("attempt 2 failed"), durationMs: 0 },
+          ],
+          failedAt: new Date(100),
+        },
+      ]);
+
+      // Attempts start over, so this run's first attempt is 1 again.
+      const requeued = queue.requeueDeadLetter("job");
+      expect(queue.deadLetters()).toEqual([]);
+      const requeuedRejection = expect(requeued).rejects.toThrow("attempt 2 failed");
+      await vi.advanceTimersByTimeAsync(100);
+      await requeuedRejection;
+      expect(seen).toEqual([1, 2, 1, 2]);
+
+      expect(queue.removeDeadLetter("job")).toBe(true);
+      await expect(queue.requeueDeadLetter("job")).rejects.toThrow('No dead letter with id "job"');
+    });
+
+    it("doesn't retry or dead-letter cancelled tasks", async () => {
+      const queue = new TaskQueue(1);
+      const controller = new AbortController();
+      let calls = 0;
+
+      const result = queue.add(
+        () => {
+          calls++;
+          return new Promise<never>(() => {});
+        },
+        { signal: controller.signal, retry: { attempts: 3 } },
+      );
+      controller.abort();
+
+      await expect(result).rejects.toBeInstanceOf(AbortError);
+      expect(calls).toBe(1);
+      expect(queue.deadLetters()).toEqual([]);
+    });
+  });
+
+  describe("limits", () => {
+    it("validates its options", () => {
+      expect(() => new TaskQueue(0)).toThrow(RangeError);
+      expect(() => new TaskQueue(1.5)).toThrow(RangeError);
+      expect(() => new TaskQueue({ keyConcurrency: -1 })).toThrow(RangeError);
+      expect(() => new TaskQueue({ rateLimit: { limit: 2, intervalMs: 0 } })).toThrow(RangeError);
+      expect(() => new TaskQueue({ concurrency: Infinity })).not.toThrow();
+      expect(() => {
+        new TaskQueue(1).concurrency = 0;
+      }).toThrow(RangeError);
+    });
+
+    it("starts more work as soon as concurrency is raised", async () => {
+      const queue = new TaskQueue(1);
+      const { task, finish } = recorder();
+
+      ["a", "b", "c", "d"].forEach((label) => queue.add(task(label)));
+      queue.concurrency = 3;
+      expect(started).toEqual(["a", "b", "c"]);
+
+      // Lowering it lets running tasks finish but starts nothing until the
+      // queue is below the new limit.
+      queue.concurrency = 1;
+      await finish("a");
+      await finish("b");
+      expect(started).toEqual(["a", "b", "c"]);
+      await finish("c");
+      expect(started).toEqual(["a", "b", "c", "d"]);
+    });
+
+    it("starts at most `limit` tasks per interval", async () => {
+      useFakeTimers();
+      const queue = new TaskQueue({ concurrency: Infinity, rateLimit: { limit: 2, intervalMs: 1_000 } });
+      const { task } = recorder();
+
+      ["a", "b", "c", "d", "e"].forEach((label) => queue.add(task(label)));
+      expect(started).toEqual(["a", "b"]);
+
+      await vi.advanceTimersByTimeAsync(999);
+      expect(started).toEqual(["a", "b"]);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(started).toEqual(["a", "b", "c", "d"]);
+      await vi.advanceTimersByTimeAsync(1_000);
+      expect(started).toEqual(["a", "b", "c", "d", "e"]);
+    });
+
+    it("limits concurrency per key without holding up other keys", async () => {
+      const queue = new TaskQueue({ concurrency: 10, keyConcurrency: 1 });
+      const { task, finish } = recorder();
+
+      queue.add(task("alice-1"), { key: "alice" });
+      queue.add(task("alice-2"), { key: "alice" });
+      queue.add(task("alice-3"), { key: "alice", priority: 5 });
+      queue.add(task("bob-1"), { key: "bob" });
+      queue.add(task("anonymous"));
+      expect(started).toEqual(["alice-1", "bob-1", "anonymous"]);
+      expect([queue.pending, queue.size]).toEqual([3, 2]);
+
+      // Parked tasks keep their priority order within the key.
+      await finish("alice-1");
+      expect(started).toEqual(["alice-1", "bob-1", "anonymous", "alice-3"]);
+      await finish("alice-3");
+      expect(started.at(-1)).toBe("alice-2");
+    });
+
+    it("cancels a parked task", async () => {
+      const queue = new TaskQueue({ concurrency: 2, keyConcurrency: 1 });
+      const { task, finish } = recorder();
+      const controller = new AbortController();
+
+      queue.add(task("first"), { key: "alice" });
+      const parked = queue.add(task("parked"), { key: "alice", signal: controller.signal });
+      queue.add(task("other"), { key: "bob" });
+      controller.abort();
+
+      await expect(parked).rejects.toBeInstanceOf(AbortError);
+      expect(queue.size).toBe(0);
+      await finish("first");
+      expect(started).toEqual(["first", "other"]);
+    });
+  });
+});
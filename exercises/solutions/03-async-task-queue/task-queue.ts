@@ -0,0 +1,539 @@
+// --- Task Queue ---
+// Runs async tasks with at most `concurrency` in flight. Waiting tasks start
+// in priority order (higher first) and, within a priority, in the order they
+// became runnable. A delayed task only becomes runnable once its delay has
+// passed. Waiting tasks live in a binary heap, so a large backlog costs
+// O(log n) per task rather than the O(n) of Array#shift.
+//
+// A task can be cancelled with an AbortSignal and bounded with timeoutMs.
+// Cancelling a waiting task removes it; cancelling (or timing out) a running
+// one aborts the signal the task was given and frees its slot right away, so
+// a task that ignores its signal can't hold up the queue.
+//
+// pause() stops new tasks from starting (running ones carry on), clear()
+// rejects everything that hasn't started, and onEmpty()/onIdle() let a
+// caller wait for the backlog or all work to finish, e.g. during a deploy.
+// Every task's lifecycle is published on `events`.
+//
+// A task with a retry policy is tried again after it rejects or times out,
+// going back through the queue after its backoff so it doesn't hold a slot
+// while it waits. Once it runs out of attempts (or retryOn declines) it is
+// dead-lettered: kept with its attempt history for inspection and
+// requeueDeadLetter(). Cancelled tasks are never retried or dead-lettered.
+//
+// Besides `concurrency`, which can be changed while the queue runs, starts
+// can be capped per interval (`rateLimit`, for third-party APIs) and per key
+// (`keyConcurrency`, e.g. one task per user at a time). A task whose key is
+// at its limit is parked with the other tasks of that key, so it doesn't
+// block the tasks behind it, and rejoins the queue when the key frees up.
+
+import { TypedEventEmitter } from "../02-type-safe-event-emitter/typed-event-emitter";
+import { BinaryHeap } from "./binary-heap";
+import { backoffDelay, RetryPolicy, validateRetryPolicy } from "./retry-policy";
+
+export interface TaskContext {
+  id: string;
+  // 1 on the first run, counting up with each retry.
+  attempt: number;
+  // Aborted when the caller's signal aborts or timeoutMs passes. Pass it on
+  // to fetch() and friends so the work actually stops.
+  signal: AbortSignal;
+}
+
+export type Task<T> = (context: TaskContext) => Promise<T>;
+
+export interface TaskOptions {
+  // Higher runs first. Defaults to 0.
+  priority?: number;
+  // Milliseconds after add() before the task may start. Defaults to 0.
+  delayMs?: number;
+  // Must be unique among tasks still waiting or running; add() rejects a
+  // duplicate, which makes re-adding the same job harmless. Generated when
+  // omitted.
+  id?: string;
+  // Aborting it cancels the task, whether it is waiting or running.
+  signal?: AbortSignal;
+  // Limit on how long each attempt may run, counted from when it starts.
+  timeoutMs?: number;
+  // Without one, a task runs once and its rejection is only reported to the
+  // caller.
+  retry?: RetryPolicy;
+  // Groups tasks for the queue's keyConcurrency limit, e.g. a user id.
+  key?: string;
+}
+
+export interface TaskQueueOptions {
+  // Tasks running at once. A positive integer or Infinity; defaults to 1.
+  concurrency?: number;
+  // At most `limit` tasks start in any `intervalMs` window. Retries count.
+  rateLimit?: { limit: number; intervalMs: number };
+  // Tasks with the same key running at once. Tasks without a key aren't
+  // limited. Defaults to Infinity.
+  keyConcurrency?: number;
+}
+
+function assertConcurrency(name: string, value: number): void {
+  if (!(Number.isInteger(value) && value >= 1) && value !== Infinity) {
+    throw new RangeError(`TaskQueue ${name} must be a positive integer or Infinity, got ${value}`);
+  }
+}
+
+// The task was cancelled through its signal. `cause` is the signal's reason.
+export class AbortError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+// The task ran longer than its timeoutMs.
+export class TimeoutError extends AbortError {}
+
+// Durations are in milliseconds. `waitMs` runs from add() to the start, so it
+// includes any delayMs; `durationMs` is the time spent running, and 0 for a
+// task that failed before it started (aborted or cleared while waiting).
+// For a retry, `waitMs` counts from the previous attempt's failure, so it
+// includes the backoff, and `durationMs` is the last attempt's.
+export interface TaskQueueEventMap {
+  "task.queued": { id: string; priority: number; delayMs: number };
+  "task.started": { id: string; attempt: number; waitMs: number };
+  "task.retrying": { id: string; attempt: number; delayMs: number; error: unknown };
+  "task.completed": { id: string; durationMs: number };
+  "task.failed": { id: string; durationMs: number; error: unknown };
+  "task.dead-lettered": DeadLetter;
+}
+
+export interface TaskAttempt {
+  attempt: number;
+  error: unknown;
+  durationMs: number;
+}
+
+export interface DeadLetter {
+  id: string;
+  // The last attempt's error; every attempt's is in `attempts`.
+  error: unknown;
+  attempts: TaskAttempt[];
+  failedAt: Date;
+}
+
+interface StoredDeadLetter extends DeadLetter {
+  task: Task<unknown>;
+  options: TaskOptions;
+}
+
+const byPriority = (a: WaitingTask, b: WaitingTask) => b.priority - a.priority || a.sequence - b.sequence;
+
+interface WaitingTask {
+  priority: number;
+  key: string | undefined;
+  // Order in which tasks became runnable; breaks priority ties FIFO.
+  sequence: number;
+  start: () => void;
+}
+
+type TaskState = "delayed" | "waiting" | "running" | "settled";
+
+interface ActiveTask {
+  readonly state: TaskState;
+  abort: (error: AbortError) => void;
+}
+
+export class TaskQueue {
+  readonly events = new TypedEventEmitter<TaskQueueEventMap>();
+  private maxConcurrency: number;
+  private readonly keyConcurrency: number;
+  private readonly rateLimit: TaskQueueOptions["rateLimit"];
+  // Start times within the current rate limit window, oldest first.
+  private recentStarts: number[] = [];
+  private rateTimer: ReturnType<typeof setTimeout> | undefined;
+  private running = 0;
+  private runningByKey = new Map<string, number>();
+  // Tasks whose key was at its limit when their turn came, by key.
+  private parked = new Map<string, BinaryHeap<WaitingTask>>();
+  private parkedCount = 0;
+  private delayed = 0;
+  private paused = false;
+  private nextSequence = 0;
+  private nextId = 1;
+  // Tasks that are delayed, waiting or running, by id.
+  private active = new Map<string, ActiveTask>();
+  private emptyWaiters: (() => void)[] = [];
+  private idleWaiters: (() => void)[] = [];
+  private deadLetterStore = new Map<string, StoredDeadLetter>();
+  private waiting = new BinaryHeap<WaitingTask>(byPriority);
+
+  // A bare number is the concurrency.
+  constructor(options: number | TaskQueueOptions = {}) {
+    const { concurrency = 1, rateLimit, keyConcurrency = Infinity } =
+      typeof options === "number" ? { concurrency: options } : options;
+    assertConcurrency("concurrency", concurrency);
+    assertConcurrency("keyConcurrency", keyConcurrency);
+    if (rateLimit) {
+      assertConcurrency("rateLimit.limit", rateLimit.limit);
+      if (!(rateLimit.intervalMs > 0 && Number.isFinite(rateLimit.intervalMs))) {
+        throw new RangeError(`TaskQueue rateLimit.intervalMs must be a positive number, got ${rateLimit.intervalMs}`);
+      }
+    }
+    this.maxConcurrency = concurrency;
+    this.keyConcurrency = keyConcurrency;
+    this.rateLimit = rateLimit;
+  }
+
+  get concurrency(): number {
+    return this.maxConcurrency;
+  }
+
+  // Takes effect at once: raising it starts waiting tasks right away,
+  // lowering it lets running tasks finish but starts no more until the queue
+  // is below the new limit.
+  set concurrency(value: number) {
+    assertConcurrency("concurrency", value);
+    this.maxConcurrency = value;
+    this.tryRunNext();
+  }
+
+  // Tasks currently running.
+  get pending(): number {
+    return this.running;
+  }
+
+  // Tasks waiting to start, including delayed ones.
+  get size(): number {
+    return this.waiting.size + this.parkedCount + this.delayed;
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  // Stops starting tasks. Running tasks finish normally and add() still
+  // accepts new ones; they wait for resume().
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.tryRunNext();
+  }
+
+  // Rejects every task that hasn't started yet with an AbortError and returns
+  // how many there were. Running tasks are left alone.
+  clear(): number {
+    const queued = [...this.active].filter(([, task]) => task.state === "delayed" || task.state === "waiting");
+    for (const [id, task] of queued) {
+      task.abort(new AbortError(`Task "${id}" was cleared from the queue`));
+    }
+    return queued.length;
+  }
+
+  // Resolves once no task is waiting to start (some may still be running).
+  onEmpty(): Promise<void> {
+    return this.size === 0 ? Promise.resolve() : new Promise((resolve) => this.emptyWaiters.push(resolve));
+  }
+
+  // Resolves once no task is waiting or running. While paused with tasks
+  // waiting, that only happens after resume() or clear().
+  onIdle(): Promise<void> {
+    return this.size === 0 && this.running === 0
+      ? Promise.resolve()
+      : new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  // Tasks that failed for good, oldest first.
+  deadLetters(): DeadLetter[] {
+    return [...this.deadLetterStore.values()].map(({ task: _task, options: _options, ...deadLetter }) => deadLetter);
+  }
+
+  // Adds a dead-lettered task again, under the same id and with the same
+  // options minus delayMs and signal, and starts its attempts from scratch.
+  requeueDeadLetter(id: string): Promise<unknown> {
+    const deadLetter = this.deadLetterStore.get(id);
+    if (!deadLetter) {
+      return Promise.reject(new Error(`No dead letter with id "${id}"`));
+    }
+    this.deadLetterStore.delete(id);
+    const { delayMs: _delayMs, signal: _signal, ...options } = deadLetter.options;
+    return this.add(deadLetter.task, options);
+  }
+
+  removeDeadLetter(id: string): boolean {
+    return this.deadLetterStore.delete(id);
+  }
+
+  async add<T>(task: Task<T>, options: TaskOptions = {}): Promise<T> {
+    const { priority = 0, delayMs = 0, id = `task-${this.nextId++}`, signal, timeoutMs, retry, key } = options;
+
+    if (!Number.isFinite(priority)) {
+      throw new RangeError(`Task priority must be a finite number, got ${priority}`);
+    }
+    if (!Number.isFinite(delayMs) || delayMs < 0) {
+      throw new RangeError(`Task delayMs must be a non-negative number, got ${delayMs}`);
+    }
+    if (timeoutMs !== undefined && !(timeoutMs > 0 && Number.isFinite(timeoutMs))) {
+      throw new RangeError(`Task timeoutMs must be a positive number, got ${timeoutMs}`);
+    }
+    if (retry) {
+      validateRetryPolicy(retry);
+    }
+    if (signal?.aborted) {
+      throw new AbortError(`Task "${id}" was aborted before it was queued`, { cause: signal.reason });
+    }
+    if (this.active.has(id)) {
+      throw new Error(`Task "${id}" is already queued or running`);
+    }
+
+    // Return a Promise that we control. We store its resolve/reject
+    // so we can call them later when the task actually runs.
+    return new Promise<T>((resolve, reject) => {
+      let state: TaskState = "delayed";
+      let attempt = 0;
+      const attempts: TaskAttempt[] = [];
+      let delayTimer: ReturnType<typeof setTimeout> | undefined;
+      let timeoutTimer: ReturnType<typeof setTimeout> | undefined;
+      // One per attempt, so a retry doesn't start out aborted.
+      let controller: AbortController | undefined;
+      let waitingSince = Date.now();
+      let startedAt: number | undefined;
+
+      // Runs once per task, whichever comes first: the task settling, an
+      // abort or the final failure. An attempt that settles after being
+      // aborted or timed out is ignored.
+      const settle = (outcome: { result: T } | { error: unknown }) => {
+        if (state === "settled") {
+          return;
+        }
+        const wasRunning = state === "running";
+        state = "settled";
+        clearTimeout(timeoutTimer);
+        signal?.removeEventListener("abort", onAbort);
+        this.active.delete(id);
+        if (wasRunning) {
+          this.release(key);
+        }
+
+        const durationMs = startedAt === undefined ? 0 : Date.now() - startedAt;
+        if ("result" in outcome) {
+          this.events.emit("task.completed", { id, durationMs });
+          resolve(outcome.result);
+        } else {
+          this.events.emit("task.failed", { id, durationMs, error: outcome.error });
+          reject(outcome.error);
+        }
+
+        if (wasRunning) {
+          this.tryRunNext();
+        } else {
+          this.notifyWaiters();
+        }
+      };
+
+      const abort = (error: AbortError) => {
+        if (state === "delayed") {
+          clearTimeout(delayTimer);
+          this.delayed--;
+        } else if (state === "waiting") {
+          this.removeWaiting(entry);
+        } else if (state === "running") {
+          controller?.abort(error);
+        }
+        settle({ error });
+      };
+
+      const onAbort = () => abort(new AbortError(`Task "${id}" was aborted`, { cause: signal?.reason }));
+
+      // The running attempt rejected or timed out: retry it or give up.
+      const fail = (error: unknown) => {
+        clearTimeout(timeoutTimer);
+        attempts.push({ attempt, error, durationMs: Date.now() - startedAt! });
+
+        if (retry && attempt < retry.attempts && (retry.retryOn?.(error, attempt) ?? true)) {
+          const delay = backoffDelay(retry, attempt);
+          this.release(key);
+          this.events.emit("task.retrying", { id, attempt, delayMs: delay, error });
+          schedule(delay);
+          this.tryRunNext();
+          return;
+        }
+
+        if (retry) {
+          const deadLetter = { id, error, attempts, failedAt: new Date() };
+          // Re-inserted so the list stays ordered by failure time.
+          this.deadLetterStore.delete(id);
+          this.deadLetterStore.set(id, { ...deadLetter, task, options });
+          this.events.emit("task.dead-lettered", deadLetter);
+        }
+        settle({ error });
+      };
+
+      const entry: WaitingTask = {
+        priority,
+        key,
+        sequence: 0,
+        // tryRunNext() has already taken the slot.
+        start: () => {
+          state = "running";
+          const current = ++attempt;
+          const isCurrent = () => state === "running" && attempt === current;
+          controller = new AbortController();
+          startedAt = Date.now();
+          this.events.emit("task.started", { id, attempt, waitMs: startedAt - waitingSince });
+
+          if (timeoutMs !== undefined) {
+            timeoutTimer = setTimeout(() => {
+              const error = new TimeoutError(`Task "${id}" timed out after ${timeoutMs}ms`);
+              controller?.abort(error);
+              fail(error);
+            }, timeoutMs);
+          }
+          // new Promise() also catches a task that throws synchronously.
+          new Promise<T>((res) => res(task({ id, attempt, signal: controller!.signal }))).then(
+            (result) => {
+              if (isCurrent()) settle({ result });
+            },
+            (error: unknown) => {
+              if (isCurrent()) fail(error);
+            },
+          );
+        },
+      };
+
+      const makeRunnable = () => {
+        state = "waiting";
+        entry.sequence = this.nextSequence++;
+        this.waiting.push(entry);
+        this.tryRunNext();
+      };
+
+      // Holds the task back for `delay` ms: at first for delayMs, later for
+      // each retry's backoff.
+      const schedule = (delay: number) => {
+        waitingSince = Date.now();
+        if (delay > 0) {
+          state = "delayed";
+          this.delayed++;
+          delayTimer = setTimeout(() => {
+            this.delayed--;
+            makeRunnable();
+          }, delay);
+        } else {
+          makeRunnable();
+        }
+      };
+
+      this.active.set(id, {
+        get state() {
+          return state;
+        },
+        abort,
+      });
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.events.emit("task.queued", { id, priority, delayMs });
+      schedule(delayMs);
+    });
+  }
+
+  private tryRunNext(): void {
+    while (!this.paused && this.running < this.maxConcurrency && this.waiting.size > 0 && this.rateLimitAllows()) {
+      const next = this.waiting.pop()!;
+      if (next.key !== undefined && (this.runningByKey.get(next.key) ?? 0) >= this.keyConcurrency) {
+        this.park(next);
+        continue;
+      }
+
+      this.running++;
+      if (next.key !== undefined) {
+        this.runningByKey.set(next.key, (this.runningByKey.get(next.key) ?? 0) + 1);
+      }
+      if (this.rateLimit) {
+        this.recentStarts.push(Date.now());
+      }
+      next.start();
+    }
+    this.notifyWaiters();
+  }
+
+  // Frees a running task's slot and, if its key was full, lets the next
+  // parked task of that key compete again (with its original sequence, so it
+  // keeps its place). Callers run tryRunNext() afterwards.
+  private release(key: string | undefined): void {
+    this.running--;
+    if (key === undefined) {
+      return;
+    }
+    const remaining = this.runningByKey.get(key)! - 1;
+    if (remaining === 0) {
+      this.runningByKey.delete(key);
+    } else {
+      this.runningByKey.set(key, remaining);
+    }
+
+    const parked = this.parked.get(key);
+    if (parked) {
+      this.waiting.push(parked.pop()!);
+      this.parkedCount--;
+      if (parked.size === 0) {
+        this.parked.delete(key);
+      }
+    }
+  }
+
+  private park(task: WaitingTask): void {
+    const key = task.key!;
+    let parked = this.parked.get(key);
+    if (!parked) {
+      parked = new BinaryHeap<WaitingTask>(byPriority);
+      this.parked.set(key, parked);
+    }
+    parked.push(task);
+    this.parkedCount++;
+  }
+
+  private removeWaiting(task: WaitingTask): void {
+    if (this.waiting.remove(task)) {
+      return;
+    }
+    const parked = this.parked.get(task.key!);
+    if (parked?.remove(task)) {
+      this.parkedCount--;
+      if (parked.size === 0) {
+        this.parked.delete(task.key!);
+      }
+    }
+  }
+
+  // Drops starts that left the window; if the window is still full, wakes
+  // the queue when its oldest start leaves it.
+  private rateLimitAllows(): boolean {
+    if (!this.rateLimit) {
+      return true;
+    }
+    const { limit, intervalMs } = this.rateLimit;
+    const now = Date.now();
+    while (this.recentStarts.length > 0 && this.recentStarts[0]! <= now - intervalMs) {
+      this.recentStarts.shift();
+    }
+    if (this.recentStarts.length < limit) {
+      return true;
+    }
+
+    if (!this.rateTimer) {
+      this.rateTimer = setTimeout(() => {
+        this.rateTimer = undefined;
+        this.tryRunNext();
+      }, this.recentStarts[0]! + intervalMs - now);
+    }
+    return false;
+  }
+
+  private notifyWaiters(): void {
+    if (this.size > 0) {
+      return;
+    }
+    this.emptyWaiters.splice(0).forEach((resolve) => resolve());
+    if (this.running === 0) {
+      this.idleWaiters.splice(0).forEach((resolve) => resolve());
+    }
+  }
+}
@@ -0,0 +1,122 @@
+// --- Workflow Store ---
+// Persisted workflow runs: the run's status, its input, and per step the
+// status, attempts and output. The engine saves after every transition, so
+// a run interrupted by a crash can be resumed from what is stored here.
+
+import { z } from "zod";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { isoDateSchema, jsonValueSchema } from "./json-schema";
+
+export const workflowStatuses = ["running", "compensating", "completed", "failed"] as const;
+export type WorkflowStatus = (typeof workflowStatuses)[number];
+
+export const stepStatuses = [
+  "pending",
+  "running",
+  "completed",
+  "failed",
+  "compensated",
+  "compensation_failed",
+] as const;
+export type StepStatus = (typeof stepStatuses)[number];
+
+export interface StepRecord {
+  status: StepStatus;
+  attempts: number;
+  // Set once completed; must be JSON-serializable.
+  output?: unknown;
+  // The step's error, or its compensation's.
+  error: string | null;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+}
+
+export interface WorkflowRun {
+  id: string;
+  workflow: string;
+  status: WorkflowStatus;
+  input: unknown;
+  steps: Record<string, StepRecord>;
+  // Step names in the order they completed; compensation runs in reverse.
+  completedOrder: string[];
+  // Why the run failed.
+  error: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WorkflowStore {
+  get(id: string): Promise<WorkflowRun | undefined>;
+  save(run: WorkflowRun): Promise<void>;
+}
+
+export class InMemoryWorkflowStore implements WorkflowStore {
+  private runs = new Map<string, WorkflowRun>();
+
+  async get(id: string): Promise<WorkflowRun | undefined> {
+    const run = this.runs.get(id);
+    return run && structuredClone(run);
+  }
+
+  async save(run: WorkflowRun): Promise<void> {
+    this.runs.set(run.id, structuredClone(run));
+  }
+}
+
+// A run file as save() wrote it. Resuming trusts these records, so a file
+// edited by hand into an impossible shape is rejected here, not mid-run.
+const workflowFileSchema = z.object({
+  id: z.string(),
+  workflow: z.string(),
+  status: z.enum(workflowStatuses),
+  input: jsonValueSchema,
+  steps: z.record(
+    z.object({
+      status: z.enum(stepStatuses),
+      attempts: z.number().int().nonnegative(),
+      output: jsonValueSchema.optional(),
+      error: z.string().nullable(),
+      startedAt: isoDateSchema.nullable(),
+      finishedAt: isoDateSchema.nullable(),
+    }),
+  ),
+  completedOrder: z.array(z.string()),
+  error: z.string().nullable(),
+  createdAt: isoDateSchema,
+  updatedAt: isoDateSchema,
+});
+
+// One JSON file per run in `dir`. save() replaces a run's file by renaming
+// a temp file over it, so after a crash get() finds the last completed save.
+export class FileWorkflowStore implements WorkflowStore {
+  constructor(private readonly dir: string) {}
+
+  async get(id: string): Promise<WorkflowRun | undefined> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path(id), "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw err;
+    }
+    return workflowFileSchema.parse(JSON.parse(raw));
+  }
+
+  async save(run: WorkflowRun): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    const tmpPath = `${this.path(run.id)}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(run, null, 2), "utf8");
+    await rename(tmpPath, this.path(run.id));
+  }
+
+  // Run ids become file names, so only a safe subset is allowed.
+  private path(id: string): string {
+    if (!/^[\w.-]+$/.test(id) || id.startsWith(".")) {
+      throw new Error(`Invalid workflow run id "${id}"`);
+    }
+    return join(this.dir, `${id}.json`);
+  }
+}
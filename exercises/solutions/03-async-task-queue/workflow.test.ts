@@ -0,0 +1,160 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { TaskQueue } from "./task-queue";
+import { defineWorkflow, WorkflowEngine, WorkflowFailedError } from "./workflow";
+import { FileWorkflowStore, InMemoryWorkflowStore, WorkflowStore } from "./workflow-store";
+
+interface Order {
+  orderId: string;
+  amount: number;
+}
+
+// Records every step and compensation call; `failAt` makes that step throw.
+function checkout(log: string[], failAt?: string) {
+  const act = async <T>(name: string, output: T): Promise<T> => {
+    log.push(name);
+    if (name === failAt) {
+      throw new Error(`${name} failed`);
+    }
+    return output;
+  };
+
+  return defineWorkflow<Order>("checkout")
+    .step("reserve", [], ({ input }) => act("reserve", { reservationId: `res-${input.orderId}` }), {
+      compensate: async ({ output }) => void log.push(`release ${output.reservationId}`),
+    })
+    .step("charge", [], ({ input }) => act("charge", { paymentId: `pay-${input.amount}` }), {
+      compensate: async ({ output }) => void log.push(`refund ${output.paymentId}`),
+    })
+    .step("ship", ["reserve", "charge"], ({ deps }) =>
+      act("ship", { trackingId: `${deps.reserve.reservationId}/${deps.charge.paymentId}` }),
+    );
+}
+
+function engine(store: WorkflowStore = new InMemoryWorkflowStore()) {
+  return new WorkflowEngine({ queue: new TaskQueue(4), store });
+}
+
+describe("Workflow", () => {
+  it("runs steps once their dependencies completed and passes their outputs on", async () => {
+    const log: string[] = [];
+
+    const outputs = await engine().start(checkout(log), { orderId: "o1", amount: 42 }, "run-1");
+
+    expect(log).toEqual(["reserve", "charge", "ship"]);
+    expect(outputs.ship.trackingId).toBe("res-o1/pay-42");
+    expect(outputs).toEqual({
+      reserve: { reservationId: "res-o1" },
+      charge: { paymentId: "pay-42" },
+      ship: { trackingId: "res-o1/pay-42" },
+    });
+  });
+
+  it("types a step's deps from the steps it depends on", () => {
+    defineWorkflow<Order>("typed")
+      .step("a", [], async () => ({ n: 1 }))
+      .step("b", ["a"], async ({ deps }) => {
+        const n: number = deps.a.n;
+        // @ts-expect-error "b" doesn't depend on "c"
+        void deps.c;
+        return n;
+      });
+
+    // @ts-expect-error steps can only depend on steps defined before them
+    expect(() => defineWorkflow<Order>("bad").step("a", ["missing"], async () => 1)).toThrow(
+      'Step "a" depends on undefined steps: missing',
+    );
+    const dup = defineWorkflow("dup").step("a", [], async () => 1);
+    // @ts-expect-error step names are unique
+    expect(() => dup.step("a", [], async () => 2)).toThrow('Workflow "dup" already has a step "a"');
+  });
+
+  it("retries a step with its retry policy", async () => {
+    let calls = 0;
+    const workflow = defineWorkflow<null>("flaky").step(
+      "call",
+      [],
+      async ({ attempt }) => {
+        calls++;
+        if (attempt < 3) throw new Error("timeout");
+        return attempt;
+      },
+      { retry: { attempts: 3, backoffMs: 0 } },
+    );
+
+    expect(await engine().start(workflow, null)).toEqual({ call: 3 });
+    expect(calls).toBe(3);
+  });
+
+  it("compensates completed steps in reverse when a step fails", async () => {
+    const log: string[] = [];
+    const store = new InMemoryWorkflowStore();
+
+    const failed = await engine(store)
+      .start(checkout(log, "ship"), { orderId: "o1", amount: 42 }, "run-1")
+      .catch((err: unknown) => err);
+
+    expect(failed).toBeInstanceOf(WorkflowFailedError);
+    expect(log).toEqual(["reserve", "charge", "ship", "refund pay-42", "release res-o1"]);
+    expect(await store.get("run-1")).toMatchObject({
+      status: "failed",
+      error: "ship failed",
+      steps: {
+        reserve: { status: "compensated" },
+        charge: { status: "compensated" },
+        ship: { status: "failed", error: "ship failed", attempts: 1 },
+      },
+    });
+  });
+
+  it("resumes an interrupted run without repeating completed steps", async () => {
+    const store = new InMemoryWorkflowStore();
+    const log: string[] = [];
+    const hangs = defineWorkflow<Order>("checkout")
+      .step("reserve", [], async () => {
+        log.push("reserve");
+        return { reservationId: "res-o1" };
+      })
+      .step("ship", ["reserve"], () => new Promise<{ trackingId: string }>(() => {}));
+
+    // The first engine "crashes" while ship is running.
+    void engine(store).start(hangs, { orderId: "o1", amount: 42 }, "run-1");
+    await expect.poll(async () => (await store.get("run-1"))?.steps.ship?.status).toBe("running");
+
+    const resumed = defineWorkflow<Order>("checkout")
+      .step("reserve", [], async () => {
+        log.push("reserve again");
+        return { reservationId: "other" };
+      })
+      .step("ship", ["reserve"], async ({ deps }) => ({ trackingId: `track-${deps.reserve.reservationId}` }));
+    const outputs = await engine(store).resume(resumed, "run-1");
+
+    expect(log).toEqual(["reserve"]);
+    expect(outputs.ship).toEqual({ trackingId: "track-res-o1" });
+    expect(await store.get("run-1")).toMatchObject({ status: "completed", completedOrder: ["reserve", "ship"] });
+
+    // Resuming a finished run just reports its outcome.
+    expect(await engine(store).resume(resumed, "run-1")).toEqual(outputs);
+  });
+
+  it("persists runs to files", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "workflows-"));
+    try {
+      await engine(new FileWorkflowStore(dir)).start(checkout([]), { orderId: "o1", amount: 42 }, "run-1");
+
+      const run = await new FileWorkflowStore(dir).get("run-1");
+      expect(run).toMatchObject({
+        workflow: "checkout",
+        status: "completed",
+        input: { orderId: "o1", amount: 42 },
+        steps: { ship: { status: "completed", output: { trackingId: "res-o1/pay-42" } } },
+      });
+      expect(run?.createdAt).toBeInstanceOf(Date);
+      await expect(new FileWorkflowStore(dir).get("../etc")).rejects.toThrow("Invalid workflow run id");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
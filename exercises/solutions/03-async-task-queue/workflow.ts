@@ -0,0 +1,304 @@
+// --- Workflows ---
+// Multi-step processes that outlive a single process. A workflow is a DAG of
+// steps: each declares the steps it depends on and receives their outputs,
+// typed, as `deps`. Steps can only depend on steps defined before them, so
+// every definition is acyclic by construction.
+//
+// The engine runs each step through a TaskQueue as soon as its dependencies
+// completed (independent steps run in parallel, each with its own retry
+// policy) and saves the run after every transition. resume() continues an
+// interrupted run: completed steps are not run again, steps that were
+// running when it stopped are, so steps must be safe to repeat.
+//
+// When a step fails for good, no new steps start; once the running ones
+// settle, the compensations of the completed steps run in reverse completion
+// order (the saga pattern) and the run ends as "failed". A compensation that
+// fails is recorded and the rest still run.
+
+import { randomUUID } from "node:crypto";
+import { RetryPolicy } from "./retry-policy";
+import { TaskQueue } from "./task-queue";
+import { StepRecord, WorkflowRun, WorkflowStore } from "./workflow-store";
+
+export interface StepContext<I, D> {
+  runId: string;
+  input: I;
+  // The outputs of the steps this one depends on, by step name.
+  deps: D;
+  attempt: number;
+  signal: AbortSignal;
+}
+
+export interface CompensationContext<I, O> {
+  runId: string;
+  input: I;
+  // What the step being undone returned.
+  output: O;
+  attempt: number;
+  signal: AbortSignal;
+}
+
+export interface StepOptions<I, O> {
+  // Also used for the compensation.
+  retry?: RetryPolicy;
+  timeoutMs?: number;
+  // Undoes the step when a later one fails: refund the payment, release the
+  // reservation.
+  compensate?: (context: CompensationContext<I, O>) => Promise<void>;
+}
+
+interface StepDefinition {
+  name: string;
+  dependsOn: readonly string[];
+  run: (context: StepContext<any, any>) => Promise<unknown>;
+  options: StepOptions<any, any>;
+}
+
+// `O` maps each step name to its output type and grows with every step().
+// Step outputs are persisted, so they must be JSON-serializable.
+export class Workflow<I, O extends Record<string, unknown> = {}> {
+  constructor(
+    readonly name: string,
+    readonly steps: readonly StepDefinition[] = [],
+  ) {}
+
+  step<N extends string, D extends keyof O & string, R>(
+    name: N extends keyof O ? never : N,
+    dependsOn: readonly D[],
+    run: (context: StepContext<I, Pick<O, D>>) => Promise<R>,
+    options: StepOptions<I, R> = {},
+  ): Workflow<I, O & { [K in N]: R }> {
+    if (this.steps.some((step) => step.name === name)) {
+      throw new Error(`Workflow "${this.name}" already has a step "${name}"`);
+    }
+    const unknown = dependsOn.filter((dep) => !this.steps.some((step) => step.name === dep));
+    if (unknown.length > 0) {
+      throw new Error(`Step "${name}" depends on undefined steps: ${unknown.join(", ")}`);
+    }
+    return new Workflow(this.name, [...this.steps, { name, dependsOn, run, options }]);
+  }
+}
+
+export function defineWorkflow<I>(name: string): Workflow<I> {
+  return new Workflow<I>(name);
+}
+
+// Rejects start() and resume() once compensation has finished. `run` is the
+// final record, with each step's status and error.
+export class WorkflowFailedError extends Error {
+  constructor(
+    readonly run: WorkflowRun,
+    options?: ErrorOptions,
+  ) {
+    super(`Workflow "${run.workflow}" run ${run.id} failed: ${run.error}`, options);
+    this.name = "WorkflowFailedError";
+  }
+}
+
+export interface WorkflowEngineOptions {
+  queue: TaskQueue;
+  store: WorkflowStore;
+  now?: () => Date;
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const pendingStep = (): StepRecord => ({
+  status: "pending",
+  attempts: 0,
+  error: null,
+  startedAt: null,
+  finishedAt: null,
+});
+
+export class WorkflowEngine {
+  private readonly queue: TaskQueue;
+  private readonly store: WorkflowStore;
+  private readonly now: () => Date;
+
+  constructor(options: WorkflowEngineOptions) {
+    this.queue = options.queue;
+    this.store = options.store;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  // Resolves with every step's output once the run completes. The input is
+  // saved with the run, so it must be JSON-serializable (null, not undefined).
+  async start<I, O extends Record<string, unknown>>(
+    workflow: Workflow<I, O>,
+    input: I,
+    runId: string = randomUUID(),
+  ): Promise<O> {
+    if (await this.store.get(runId)) {
+      throw new Error(`Workflow run ${runId} already exists`);
+    }
+    const now = this.now();
+    const run: WorkflowRun = {
+      id: runId,
+      workflow: workflow.name,
+      status: "running",
+      input,
+      steps: Object.fromEntries(workflow.steps.map((step) => [step.name, pendingStep()])),
+      completedOrder: [],
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.store.save(run);
+    return this.execute(workflow, run);
+  }
+
+  // Picks a stored run up where it stopped. A finished run just resolves or
+  // rejects with its stored outcome.
+  async resume<I, O extends Record<string, unknown>>(workflow: Workflow<I, O>, runId: string): Promise<O> {
+    const run = await this.store.get(runId);
+    if (!run) {
+      throw new Error(`Workflow run ${runId} not found`);
+    }
+    if (run.workflow !== workflow.name) {
+      throw new Error(`Workflow run ${runId} belongs to "${run.workflow}", not "${workflow.name}"`);
+    }
+
+    for (const step of workflow.steps) {
+      const record = (run.steps[step.name] ??= pendingStep());
+      // Interrupted mid-step: it runs again.
+      if (record.status === "running") {
+        record.status = "pending";
+      }
+    }
+    return this.execute(workflow, run);
+  }
+
+  getRun(runId: string): Promise<WorkflowRun | undefined> {
+    return this.store.get(runId);
+  }
+
+  private async execute<I, O extends Record<string, unknown>>(workflow: Workflow<I, O>, run: WorkflowRun): Promise<O> {
+    // Saves are chained so they land in order; the first failure is
+    // rethrown once the run is over.
+    let saving = Promise.resolve();
+    let saveError: unknown;
+    const persist = () => {
+      run.updatedAt = this.now();
+      const snapshot = structuredClone(run);
+      saving = saving.then(() => this.store.save(snapshot)).catch((err: unknown) => void (saveError ??= err));
+    };
+    const finish = async () => {
+      persist();
+      await saving;
+      if (saveError !== undefined) {
+        throw saveError;
+      }
+    };
+
+    const outputs = () => Object.fromEntries(run.completedOrder.map((name) => [name, run.steps[name]!.output])) as O;
+    if (run.status === "completed") {
+      return outputs();
+    }
+
+    let failure: unknown;
+    if (run.status === "running") {
+      failure = await this.runSteps(workflow, run, persist);
+      if (failure === undefined) {
+        run.status = "completed";
+        await finish();
+        return outputs();
+      }
+      run.status = "compensating";
+      run.error = errorMessage(failure);
+      persist();
+    }
+
+    if (run.status === "compensating") {
+      await this.compensate(workflow, run, persist);
+      run.status = "failed";
+      await finish();
+    }
+    throw new WorkflowFailedError(run, failure === undefined ? undefined : { cause: failure });
+  }
+
+  // Starts every step whose dependencies completed, again each time one
+  // settles, until none is left to start. Resolves with the first step
+  // error, if any.
+  private runSteps(workflow: Workflow<any, any>, run: WorkflowRun, persist: () => void): Promise<unknown> {
+    return new Promise((resolve) => {
+      // A resumed run may have failed just before it could start compensating.
+      const failed = Object.values(run.steps).find((record) => record.status === "failed");
+      let failure: unknown = failed ? new Error(failed.error ?? "Step failed") : undefined;
+      let inFlight = 0;
+
+      const launchReady = () => {
+        for (const step of workflow.steps) {
+          const record = run.steps[step.name]!;
+          const ready = step.dependsOn.every((dep) => run.steps[dep]!.status === "completed");
+          if (failure === undefined && record.status === "pending" && ready) {
+            launch(step, record);
+          }
+        }
+        if (inFlight === 0) {
+          resolve(failure);
+        }
+      };
+
+      const launch = (step: StepDefinition, record: StepRecord) => {
+        inFlight++;
+        Object.assign(record, { status: "running", error: null, startedAt: this.now(), finishedAt: null });
+        persist();
+
+        const taskId = `${run.id}:${step.name}`;
+        const deps = Object.fromEntries(step.dependsOn.map((dep) => [dep, run.steps[dep]!.output]));
+        this.queue
+          .add(
+            ({ attempt, signal }) => {
+              record.attempts++;
+              return step.run({ runId: run.id, input: run.input, deps, attempt, signal });
+            },
+            { id: taskId, retry: step.options.retry, timeoutMs: step.options.timeoutMs },
+          )
+          .then(
+            (output) => {
+              Object.assign(record, { status: "completed", output, finishedAt: this.now() });
+              run.completedOrder.push(step.name);
+            },
+            (err: unknown) => {
+              Object.assign(record, { status: "failed", error: errorMessage(err), finishedAt: this.now() });
+              failure ??= err;
+              // The run record keeps the failure; no need for a dead letter too.
+              this.queue.removeDeadLetter(taskId);
+            },
+          )
+          .then(() => {
+            inFlight--;
+            persist();
+            launchReady();
+          });
+      };
+
+      launchReady();
+    });
+  }
+
+  private async compensate(workflow: Workflow<any, any>, run: WorkflowRun, persist: () => void): Promise<void> {
+    for (const name of [...run.completedOrder].reverse()) {
+      const step = workflow.steps.find((s) => s.name === name);
+      const record = run.steps[name]!;
+      if (!step?.options.compensate || record.status !== "completed") {
+        continue;
+      }
+
+      const taskId = `${run.id}:${name}:compensate`;
+      try {
+        await this.queue.add(
+          ({ attempt, signal }) =>
+            step.options.compensate!({ runId: run.id, input: run.input, output: record.output, attempt, signal }),
+          { id: taskId, retry: step.options.retry, timeoutMs: step.options.timeoutMs },
+        );
+        record.status = "compensated";
+      } catch (err) {
+        Object.assign(record, { status: "compensation_failed", error: errorMessage(err) });
+        this.queue.removeDeadLetter(taskId);
+      }
+      persist();
+    }
+  }
+}
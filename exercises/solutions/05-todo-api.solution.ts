@@ -2,151 +2,91 @@ export {};
 // ============================================================================
 // SOLUTION 05: Todo REST API
 // Run: npx tsx exercises/solutions/05-todo-api.solution.ts
-// Test: curl http://localhost:3000/todos
+// Test: curl -H "Authorization: Bearer $TOKEN" http://localhost:3000/todos
+//       (a dev $TOKEN is printed on startup)
+// Persist: TODO_STORE=file npx tsx exercises/solutions/05-todo-api.solution.ts
 // ============================================================================
-
-import express, { Request, Response, NextFunction } from "express";
-import { z } from "zod";
-
-const app = express();
-app.use(express.json());
-
-// --- Data Model ---
-
-interface Todo {
-  id: string;
-  title: string;
-  completed: boolean;
-  createdAt: Date;
-}
-
-// Zod schemas for input validation
-const createTodoSchema = z.object({
-  title: z.string().min(1, "Title is required").max(200, "Title too long"),
-});
-
-const updateTodoSchema = z.object({
-  title: z.string().min(1).max(200).optional(),
-  completed: z.boolean().optional(),
-});
-
-// --- In-Memory Store ---
-
-const todos: Todo[] = [];
-let nextId = 1;
-
-// --- Helper ---
-
-function findTodoIndex(id: string): number {
-  return todos.findIndex((t) => t.id === id);
-}
-
-// --- Routes ---
-
-// GET /todos — list all, with optional ?completed=true/false filter
-app.get("/todos", (req: Request, res: Response) => {
-  const { completed } = req.query;
-
-  if (completed === "true") {
-    res.json(todos.filter((t) => t.completed));
-  } else if (completed === "false") {
-    res.json(todos.filter((t) => !t.completed));
-  } else {
-    res.json(todos);
-  }
-});
-
-// POST /todos — create a new todo
-app.post("/todos", (req: Request, res: Response) => {
-  const result = createTodoSchema.safeParse(req.body);
-
-  if (!result.success) {
-    res.status(400).json({
-      error: "Validation failed",
-      details: result.error.flatten().fieldErrors,
-    });
-    return;
-  }
-
-  const todo: Todo = {
-    id: String(nextId++),
-    title: result.data.title,
-    completed: false,
-    createdAt: new Date(),
-  };
-
-  todos.push(todo);
-  res.status(201).json(todo);
-});
-
-// GET /todos/:id — get a single todo
-app.get("/todos/:id", (req: Request, res: Response) => {
-  const index = findTodoIndex(req.params.id);
-
-  if (index === -1) {
-    res.status(404).json({ error: "Todo not found" });
-    return;
-  }
-
-  res.json(todos[index]);
-});
-
-// PATCH /todos/:id — partial update
-app.patch("/todos/:id", (req: Request, res: Response) => {
-  const index = findTodoIndex(req.params.id);
-
-  if (index === -1) {
-    res.status(404).json({ error: "Todo not found" });
-    return;
-  }
-
-  const result = updateTodoSchema.safeParse(req.body);
-
-  if (!result.success) {
-    res.status(400).json({
-      error: "Validation failed",
-      details: result.error.flatten().fieldErrors,
-    });
-    return;
-  }
-
-  const existing = todos[index]!;
-  const updated: Todo = { ...existing, ...result.data };
-  todos[index] = updated;
-
-  res.json(updated);
-});
-
-// DELETE /todos/:id — delete a todo
-app.delete("/todos/:id", (req: Request, res: Response) => {
-  const index = findTodoIndex(req.params.id);
-
-  if (index === -1) {
-    res.status(404).json({ error: "Todo not found" });
-    return;
-  }
-
-  todos.splice(index, 1);
-  res.status(204).send();
-});
-
-// --- Error Handling Middleware ---
-
-app.use((err: Error, _req: Request, res: Response, _next: NextFunction) => {
-  console.error("Unhandled error:", err.message);
-  res.status(500).json({ error: "Internal server error" });
+//
+// This file is only the server entrypoint: it reads config, picks a store,
+// opens the port and shuts down gracefully on SIGTERM/SIGINT. The app itself
+// lives in ./05-todo-api/ so it can be imported by tests (see
+// 05-todo-api/app.test.ts) without listening on anything.
+
+import { randomBytes, randomUUID } from "node:crypto";
+import { createSequentialIdGenerator, createTodoApp } from "./05-todo-api/app";
+import { Role, signToken } from "./05-todo-api/auth";
+import { loadConfig } from "./05-todo-api/config";
+import { createGracefulShutdown, handleShutdownSignals } from "./05-todo-api/shutdown";
+import { FileTodoRepository, InMemoryTodoRepository, TodoRepository } from "./05-todo-api/todo-repository";
+
+const config = loadConfig(process.env);
+
+// Sequential ids keep the curl examples below working against the in-memory
+// store. A persistent store outlives the counter, so it gets UUIDs instead.
+const persistent = config.TODO_STORE === "file";
+const repository: TodoRepository = persistent
+  ? new FileTodoRepository(config.TODO_STORE_FILE)
+  : new InMemoryTodoRepository();
+const generateId = persistent ? randomUUID : createSequentialIdGenerator();
+
+// Without JWT_SECRET the server makes up a secret and prints tokens signed
+// with it, so it can be tried without an identity provider. They stop
+// working on restart; mint-token.ts signs tokens for a configured secret.
+const jwtSecret = config.JWT_SECRET ?? randomBytes(32).toString("hex");
+const devToken = (userId: string, role: Role) =>
+  signToken({ userId, role }, { secret: jwtSecret, now: new Date(), expiresInSeconds: 24 * 60 * 60 });
+const devTokens = config.JWT_SECRET === undefined ? { user: devToken("demo", "user"), admin: devToken("admin", "admin") } : undefined;
+
+let shuttingDown = false;
+
+const app = createTodoApp({
+  repository,
+  auth: { secret: jwtSecret },
+  generateId,
+  idempotencyTtlMs: config.IDEMPOTENCY_TTL_MS,
+  rateLimits: {
+    default: { limit: config.RATE_LIMIT_MAX, windowMs: config.RATE_LIMIT_WINDOW_MS },
+    createTodo: { limit: config.RATE_LIMIT_CREATE_MAX, windowMs: config.RATE_LIMIT_WINDOW_MS },
+  },
+  changeFeed: { bufferSize: config.CHANGE_FEED_BUFFER_SIZE, heartbeatMs: config.CHANGE_FEED_HEARTBEAT_MS },
+  isShuttingDown: () => shuttingDown,
 });
 
 // --- Start Server ---
 
-const PORT = 3000;
-app.listen(PORT, () => {
+const PORT = config.PORT;
+const server = app.listen(PORT, () => {
   console.log(`Todo API running at http://localhost:${PORT}`);
+  console.log(`API docs at http://localhost:${PORT}/docs (spec: /openapi.json)`);
+  if (devTokens) {
+    console.log("\nJWT_SECRET is not set, so this run uses a throwaway secret. Tokens valid for 24h:");
+    console.log(`  export TOKEN=${devTokens.user}        # user "demo"`);
+    console.log(`  export ADMIN_TOKEN=${devTokens.admin}  # admin`);
+  }
   console.log("\nTest with curl:");
-  console.log('  curl http://localhost:3000/todos');
-  console.log('  curl -X POST http://localhost:3000/todos -H "Content-Type: application/json" -d \'{"title":"Buy milk"}\'');
-  console.log('  curl http://localhost:3000/todos/1');
-  console.log('  curl -X PATCH http://localhost:3000/todos/1 -H "Content-Type: application/json" -d \'{"completed":true}\'');
-  console.log('  curl -X DELETE http://localhost:3000/todos/1');
-  console.log('  curl "http://localhost:3000/todos?completed=false"');
+  console.log(`  curl -H "Authorization: Bearer $TOKEN" http://localhost:${PORT}/todos`);
+  console.log(`  curl http://localhost:${PORT}/ready`);
+  console.log(`  curl http://localhost:${PORT}/metrics`);
+  console.log(`  curl -H "Authorization: Bearer $TOKEN" -N http://localhost:${PORT}/todos/events`);
+  console.log(`  curl -H "Authorization: Bearer $TOKEN" -X POST http://localhost:${PORT}/graphql -H "Content-Type: application/json" -d '{"query":"{ todos(first: 5) { edges { node { id title } } totalCount } }"}'`);
+  console.log(`  curl -H "Authorization: Bearer $TOKEN" -X POST http://localhost:${PORT}/todos -H "Content-Type: application/json" -d '{"title":"Buy milk"}'`);
+  console.log(`  curl -H "Authorization: Bearer $TOKEN" -X POST http://localhost:${PORT}/todos -H "Content-Type: application/json" -H "Idempotency-Key: abc" -d '{"title":"Once"}'`);
+  console.log(`  curl -H "Authorization: Bearer $TOKEN" http://localhost:${PORT}/todos/1`);
+  console.log(`  curl -H "Authorization: Bearer $TOKEN" -X PATCH http://localhost:${PORT}/todos/1 -H "Content-Type: application/json" -d '{"completed":true}'`);
+  console.log(`  curl -H "Authorization: Bearer $TOKEN" -X DELETE http://localhost:${PORT}/todos/1`);
+  console.log(`  curl -H "Authorization: Bearer $TOKEN" "http://localhost:${PORT}/todos?completed=false"`);
+  console.log(`  curl -H "Authorization: Bearer $TOKEN" "http://localhost:${PORT}/todos?sort=title&order=desc&limit=10"`);
+  console.log(`  curl -H "Authorization: Bearer $TOKEN" "http://localhost:${PORT}/todos?tag=home&overdue=true&q=taxes"`);
 });
+
+// --- Graceful Shutdown ---
+
+handleShutdownSignals(
+  createGracefulShutdown(server, {
+    drainTimeoutMs: config.SHUTDOWN_TIMEOUT_MS,
+    close: () => repository.close(),
+    onDrainStart: () => {
+      shuttingDown = true;
+    },
+  }),
+);
@@ -0,0 +1,895 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createSequentialIdGenerator, createTodoApp, TodoAppDeps } from "./app";
+import { Role, signToken } from "./auth";
+import { IdempotencyEntry, InMemoryIdempotencyStore } from "./idempotency";
+import { FileTodoRepository, InMemoryTodoRepository } from "./todo-repository";
+import { TaskQueue } from "../03-async-task-queue/task-queue";
+import { createTaskQueueMetrics } from "../03-async-task-queue/task-queue-metrics";
+import { MetricsRegistry } from "../shared/metrics";
+
+// Each test gets a fresh app on an ephemeral port and talks to it with fetch,
+// so requests go through the real HTTP stack (body parsing, headers, status).
+
+let server: Server;
+let baseUrl: string;
+let now: Date;
+
+const secret = "app-test-secret-0123456789abcdef";
+
+function tokenFor(userId: string, role: Role = "user"): string {
+  return signToken({ userId, role }, { secret, now, expiresInSeconds: 3600 });
+}
+
+function stopServer(): Promise<void> {
+  return new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve())));
+}
+
+// Replaces the running app, for tests that need non-default deps.
+async function startApp(overrides: Partial<TodoAppDeps> = {}): Promise<void> {
+  if (server?.listening) {
+    await stopServer();
+  }
+
+  const app = createTodoApp({
+    repository: new InMemoryTodoRepository(),
+    auth: { secret },
+    clock: () => now,
+    generateId: createSequentialIdGenerator(),
+    ...overrides,
+  });
+
+  server = app.listen(0);
+  await new Promise<void>((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+beforeEach(async () => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+
+  now = new Date("2026-01-01T00:00:00.000Z");
+  await startApp();
+});
+
+afterEach(async () => {
+  await stopServer();
+  vi.restoreAllMocks();
+});
+
+// Requests are made as "alice" unless init.headers says otherwise.
+function request(path: string, init: RequestInit = {}): Promise<globalThis.Response> {
+  return fetch(`${baseUrl}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${tokenFor("alice")}`, ...init.headers },
+  });
+}
+
+async function createTodo(title: string): Promise<{ id: string; title: string }> {
+  const res = await request("/todos", { method: "POST", body: JSON.stringify({ title }) });
+  expect(res.status).toBe(201);
+  return res.json();
+}
+
+describe("CRUD", () => {
+  it("creates a todo using the injected clock and id generator", async () => {
+    const res = await request("/todos", { method: "POST", body: JSON.stringify({ title: "Buy milk" }) });
+
+    expect(res.status).toBe(201);
+    expect(await res.json()).toEqual({
+      id: "1",
+      ownerId: "alice",
+      title: "Buy milk",
+      description: null,
+      completed: false,
+      priority: "medium",
+      tags: [],
+      dueDate: null,
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-01T00:00:00.000Z",
+      version: 1,
+    });
+  });
+
+  it("reads, updates and deletes a todo", async () => {
+    const { id } = await createTodo("Write tests");
+
+    const fetched = await request(`/todos/${id}`);
+    expect(fetched.status).toBe(200);
+    expect(await fetched.json()).toMatchObject({ id, title: "Write tests" });
+
+    const patched = await request(`/todos/${id}`, { method: "PATCH", body: JSON.stringify({ completed: true }) });
+    expect(patched.status).toBe(200);
+    expect(await patched.json()).toMatchObject({ id, completed: true });
+
+    const deleted = await request(`/todos/${id}`, { method: "DELETE" });
+    expect(deleted.status).toBe(204);
+
+    const afterDelete = await request(`/todos/${id}`);
+    expect(afterDelete.status).toBe(404);
+  });
+
+  it("lists todos in an envelope and filters by completed", async () => {
+    await createTodo("a");
+    const { id } = await createTodo("b");
+    await request(`/todos/${id}`, { method: "PATCH", body: JSON.stringify({ completed: true }) });
+
+    const all = await (await request("/todos")).json();
+    expect(all).toMatchObject({ total: 2, nextCursor: null });
+
+    const done = await (await request("/todos?completed=true")).json();
+    expect(done.items.map((t: { id: string }) => t.id)).toEqual([id]);
+  });
+
+  it("pages through todos with a cursor", async () => {
+    for (const title of ["c", "a", "d", "b"]) {
+      await createTodo(title);
+    }
+
+    const first = await (await request("/todos?sort=title&limit=2")).json();
+    expect(first.items.map((t: { title: string }) => t.title)).toEqual(["a", "b"]);
+    expect(first.total).toBe(4);
+
+    const second = await (await request(`/todos?sort=title&limit=2&cursor=${first.nextCursor}`)).json();
+    expect(second.items.map((t: { title: string }) => t.title)).toEqual(["c", "d"]);
+    expect(second.nextCursor).toBeNull();
+  });
+});
+
+describe("rich fields and filters", () => {
+  async function createRich(body: Record<string, unknown>): Promise<{ id: string }> {
+    const res = await request("/todos", { method: "POST", body: JSON.stringify(body) });
+    expect(res.status).toBe(201);
+    return res.json();
+  }
+
+  async function listIds(query: string): Promise<string[]> {
+    const res = await request(`/todos?${query}`);
+    expect(res.status).toBe(200);
+    return (await res.json()).items.map((t: { id: string }) => t.id);
+  }
+
+  it("normalizes tags and parses due dates on create", async () => {
+    const res = await request("/todos", {
+      method: "POST",
+      body: JSON.stringify({ title: "Taxes", priority: "high", tags: [" Work", "work", "money"], dueDate: "2026-04-15" }),
+    });
+
+    expect(await res.json()).toMatchObject({
+      priority: "high",
+      tags: ["work", "money"],
+      dueDate: "2026-04-15T00:00:00.000Z",
+    });
+  });
+
+  it("stamps updatedAt and clears nullable fields on update", async () => {
+    const { id } = await createRich({ title: "Call", description: "about the lease", dueDate: "2026-02-01" });
+    now = new Date("2026-01-02T00:00:00.000Z");
+
+    const res = await request(`/todos/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ description: null, dueDate: null, tags: ["home"] }),
+    });
+
+    expect(await res.json()).toMatchObject({
+      description: null,
+      dueDate: null,
+      tags: ["home"],
+      createdAt: "2026-01-01T00:00:00.000Z",
+      updatedAt: "2026-01-02T00:00:00.000Z",
+    });
+  });
+
+  it("filters by tag, priority, overdue and text", async () => {
+    const report = await createRich({ title: "Quarterly report", tags: ["work"], priority: "high", dueDate: "2025-12-31" });
+    const groceries = await createRich({ title: "Groceries", description: "oat milk, bread", tags: ["home"] });
+    const review = await createRich({ title: "Code review", tags: ["work", "team"], priority: "urgent", dueDate: "2026-06-01" });
+
+    expect(await listIds("tag=work")).toEqual([report.id, review.id]);
+    expect(await listIds("tag=work&tag=team")).toEqual([review.id]);
+    expect(await listIds("priority=high&priority=urgent")).toEqual([report.id, review.id]);
+    expect(await listIds("overdue=true")).toEqual([report.id]);
+    expect(await listIds("q=MILK")).toEqual([groceries.id]);
+    expect(await listIds("q=quarterly%20report")).toEqual([report.id]);
+  });
+
+  it("rejects unknown priorities and bad dates", async () => {
+    const res = await request("/todos", {
+      method: "POST",
+      body: JSON.stringify({ title: "x", priority: "whenever", dueDate: "next week" }),
+    });
+
+    expect(res.status).toBe(422);
+    expect(Object.keys((await res.json()).error.details)).toEqual(["priority", "dueDate"]);
+  });
+});
+
+describe("validation failures", () => {
+  it("rejects an invalid create payload with field details", async () => {
+    const res = await request("/todos", { method: "POST", body: JSON.stringify({ title: "" }) });
+
+    expect(res.status).toBe(422);
+    expect(await res.json()).toMatchObject({
+      error: { code: "VALIDATION_ERROR", details: { title: ["Title is required"] } },
+    });
+  });
+
+  it("rejects an invalid update payload", async () => {
+    const { id } = await createTodo("x");
+    const res = await request(`/todos/${id}`, { method: "PATCH", body: JSON.stringify({ completed: "yes" }) });
+
+    expect(res.status).toBe(422);
+    expect((await res.json()).error.details).toHaveProperty("completed");
+  });
+
+  it("rejects malformed JSON with a 400", async () => {
+    const res = await request("/todos", { method: "POST", body: '{"title":' });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.code).toBe("MALFORMED_JSON");
+  });
+
+  it("rejects invalid list query parameters", async () => {
+    const res = await request("/todos?limit=0");
+
+    expect(res.status).toBe(422);
+    expect((await res.json()).error.details).toHaveProperty("limit");
+  });
+
+  it("rejects a cursor issued for a different sort order", async () => {
+    await createTodo("a");
+    await createTodo("b");
+    const { nextCursor } = await (await request("/todos?sort=title&limit=1")).json();
+
+    const res = await request(`/todos?sort=createdAt&limit=1&cursor=${nextCursor}`);
+    expect(res.status).toBe(422);
+  });
+});
+
+describe("not-found paths", () => {
+  it.each([
+    ["GET", "/todos/999"],
+    ["PATCH", "/todos/999"],
+    ["DELETE", "/todos/999"],
+  ])("%s %s returns 404", async (method, path) => {
+    const res = await request(path, { method, body: method === "PATCH" ? "{}" : undefined });
+
+    expect(res.status).toBe(404);
+    expect((await res.json()).error).toMatchObject({ code: "NOT_FOUND", details: { id: "999" } });
+  });
+
+  it("returns the same envelope for unknown routes", async () => {
+    const res = await request("/nope");
+
+    expect(res.status).toBe(404);
+    expect((await res.json()).error.code).toBe("NOT_FOUND");
+  });
+});
+
+describe("health probes", () => {
+  it("answers /health and /ready while everything is fine", async () => {
+    expect(await (await request("/health")).json()).toEqual({ status: "ok" });
+
+    const ready = await request("/ready");
+    expect(ready.status).toBe(200);
+    expect(await ready.json()).toEqual({ status: "ready", checks: { store: "ok", server: "ok" } });
+  });
+
+  it("is not ready when the store file can't be loaded", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "todo-api-"));
+    const file = join(dir, "todos.json");
+    await writeFile(file, "{ not json");
+
+    try {
+      await startApp({ repository: new FileTodoRepository(file) });
+
+      const ready = await request("/ready");
+      expect(ready.status).toBe(503);
+      expect(await ready.json()).toEqual({ status: "not_ready", checks: { store: "failing", server: "ok" } });
+      expect((await request("/health")).status).toBe(200);
+    } finally {
+      await rm(dir, { recursive: true });
+    }
+  });
+
+  it("is not ready once shutdown has started", async () => {
+    await startApp({ isShuttingDown: () => true });
+
+    const ready = await request("/ready");
+    expect(ready.status).toBe(503);
+    expect((await ready.json()).checks).toEqual({ store: "ok", server: "shutting_down" });
+  });
+
+  it("doesn't count probes against the rate limit", async () => {
+    await startApp({
+      rateLimits: { default: { limit: 1, windowMs: 60_000 }, createTodo: { limit: 1, windowMs: 60_000 } },
+    });
+
+    for (let i = 0; i < 3; i++) {
+      expect((await request("/ready")).status).toBe(200);
+    }
+  });
+});
+
+describe("authentication and ownership", () => {
+  const as = (userId: string, role: Role = "user") => ({ Authorization: `Bearer ${tokenFor(userId, role)}` });
+
+  it("answers 401 without a valid bearer token", async () => {
+    const missing = await request("/todos", { headers: { Authorization: "" } });
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("www-authenticate")).toBe('Bearer realm="todo-api"');
+    expect((await missing.json()).error).toMatchObject({ code: "UNAUTHORIZED", message: "Missing bearer token" });
+
+    const forged = signToken({ userId: "alice", role: "admin" }, { secret: "not-the-server-secret-0123456789", now, expiresInSeconds: 60 });
+    const badSignature = await request("/graphql", {
+      method: "POST",
+      headers: { Authorization: `Bearer ${forged}` },
+      body: JSON.stringify({ query: "{ todos { totalCount } }" }),
+    });
+    expect(badSignature.status).toBe(401);
+    expect(badSignature.headers.get("www-authenticate")).toContain('error="invalid_token"');
+
+    const token = tokenFor("alice");
+    now = new Date(now.getTime() + 3600 * 1000);
+    const expired = await request("/todos", { headers: { Authorization: `Bearer ${token}` } });
+    expect((await expired.json()).error.message).toBe("Bearer token has expired");
+
+    expect((await request("/health", { headers: { Authorization: "" } })).status).toBe(200);
+    expect((await request("/metrics", { headers: { Authorization: "" } })).status).toBe(200);
+  });
+
+  it("scopes todos to their owner and answers 403 for someone else's", async () => {
+    const { id } = await createTodo("Alice's");
+    await request("/todos", { method: "POST", headers: as("bob"), body: JSON.stringify({ title: "Bob's" }) });
+
+    const bobsList = await (await request("/todos", { headers: as("bob") })).json();
+    expect(bobsList.items.map((t: { title: string }) => t.title)).toEqual(["Bob's"]);
+
+    const get = await request(`/todos/${id}`, { headers: as("bob") });
+    expect(get.status).toBe(403);
+    expect((await get.json()).error).toMatchObject({ code: "FORBIDDEN", details: { id } });
+
+    const patch = await request(`/todos/${id}`, { method: "PATCH", headers: as("bob"), body: JSON.stringify({ completed: true }) });
+    expect(patch.status).toBe(403);
+    expect((await request(`/todos/${id}`, { method: "DELETE", headers: as("bob") })).status).toBe(403);
+
+    const bulk = await request("/todos/bulk", {
+      method: "POST",
+      headers: as("bob"),
+      body: JSON.stringify({
+        operations: [
+          { op: "create", data: { title: "Sneaky" } },
+          { op: "delete", id },
+        ],
+      }),
+    });
+    expect(bulk.status).toBe(403);
+    expect((await bulk.json()).error.details).toEqual({ operation: 1, id });
+
+    expect((await (await request("/todos")).json()).items).toMatchObject([{ id, title: "Alice's", completed: false }]);
+  });
+
+  it("lets admins see and change every todo", async () => {
+    const { id } = await createTodo("Alice's");
+    await request("/todos", { method: "POST", headers: as("bob"), body: JSON.stringify({ title: "Bob's" }) });
+
+    const all = await (await request("/todos", { headers: as("root", "admin") })).json();
+    expect(all.items.map((t: { ownerId: string }) => t.ownerId)).toEqual(["alice", "bob"]);
+
+    const patched = await request(`/todos/${id}`, {
+      method: "PATCH",
+      headers: as("root", "admin"),
+      body: JSON.stringify({ completed: true }),
+    });
+    expect(await patched.json()).toMatchObject({ ownerId: "alice", completed: true });
+  });
+
+  it("keeps Idempotency-Keys apart per user", async () => {
+    const post = (headers: Record<string, string>) =>
+      request("/todos", {
+        method: "POST",
+        headers: { ...headers, "Idempotency-Key": "same-key" },
+        body: JSON.stringify({ title: "Buy milk" }),
+      });
+
+    const alices = await post({});
+    const bobs = await post(as("bob"));
+
+    expect(bobs.headers.get("idempotent-replayed")).toBeNull();
+    expect((await bobs.json()).ownerId).toBe("bob");
+    expect((await alices.json()).ownerId).toBe("alice");
+  });
+});
+
+describe("metrics", () => {
+  it("counts requests by route template and status", async () => {
+    const { id } = await createTodo("a");
+    await request(`/todos/${id}`);
+    await request("/todos/missing");
+    await request("/nope");
+
+    const res = await request("/metrics");
+    expect(res.headers.get("content-type")).toMatch(/^text\/plain;.*version=0\.0\.4/);
+    const body = await res.text();
+
+    expect(body).toContain("# TYPE http_requests_total counter");
+    expect(body).toContain('http_requests_total{method="POST",route="/todos",status_code="201"} 1');
+    expect(body).toContain('http_requests_total{method="GET",route="/todos/:id",status_code="200"} 1');
+    expect(body).toContain('http_requests_total{method="GET",route="/todos/:id",status_code="404"} 1');
+    expect(body).toContain('http_requests_total{method="GET",route="unmatched",status_code="404"} 1');
+    expect(body).not.toContain(`route="/todos/${id}"`);
+
+    expect(body).toContain("# TYPE http_request_duration_seconds histogram");
+    expect(body).toContain(
+      'http_request_duration_seconds_bucket{method="POST",route="/todos",status_code="201",le="0.01"}',
+    );
+    expect(body).toContain(
+      'http_request_duration_seconds_bucket{method="POST",route="/todos",status_code="201",le="+Inf"} 1',
+    );
+    expect(body).toContain('http_request_duration_seconds_count{method="POST",route="/todos",status_code="201"} 1');
+  });
+
+  it("exposes other metrics registered on a shared registry", async () => {
+    const registry = new MetricsRegistry();
+    const queue = new TaskQueue(1);
+    createTaskQueueMetrics(registry).track("emails", queue);
+    await startApp({ metrics: registry });
+
+    let release!: () => void;
+    const running = queue.add(() => new Promise<void>((resolve) => (release = resolve)));
+    const queued = queue.add(async () => {});
+
+    const body = await (await request("/metrics")).text();
+    expect(body).toContain('task_queue_running{queue="emails"} 1');
+    expect(body).toContain('task_queue_queued{queue="emails"} 1');
+
+    release();
+    await Promise.all([running, queued]);
+  });
+});
+
+describe("request ids", () => {
+  it("echoes a client-supplied X-Request-Id into the header and error body", async () => {
+    const res = await request("/todos/999", { headers: { "X-Request-Id": "req-123" } });
+
+    expect(res.headers.get("X-Request-Id")).toBe("req-123");
+    expect((await res.json()).error.requestId).toBe("req-123");
+  });
+
+  it("generates an id when none is supplied", async () => {
+    const res = await request("/todos");
+
+    expect(res.headers.get("X-Request-Id")).toMatch(/^[0-9a-f-]{36}$/);
+  });
+});
+
+describe("Idempotency-Key", () => {
+  function createWithKey(key: string, body: unknown): Promise<globalThis.Response> {
+    return request("/todos", { method: "POST", headers: { "Idempotency-Key": key }, body: JSON.stringify(body) });
+  }
+
+  it("replays the original 201 for an identical retry without creating a duplicate", async () => {
+    const first = await createWithKey("key-1", { title: "Pay rent" });
+    const retry = await createWithKey("key-1", { title: "Pay rent" });
+
+    expect(retry.status).toBe(201);
+    expect(retry.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(await retry.json()).toEqual(await first.json());
+    expect((await (await request("/todos")).json()).total).toBe(1);
+  });
+
+  it("rejects the same key with a different body", async () => {
+    await createWithKey("key-2", { title: "One" });
+    const res = await createWithKey("key-2", { title: "Two" });
+
+    expect(res.status).toBe(409);
+    expect((await res.json()).error.code).toBe("CONFLICT");
+  });
+
+  it("does not remember failed requests", async () => {
+    const invalid = await createWithKey("key-3", { title: "" });
+    expect(invalid.status).toBe(422);
+
+    const fixed = await createWithKey("key-3", { title: "" });
+    expect(fixed.status).toBe(422);
+    expect(fixed.headers.get("Idempotent-Replayed")).toBeNull();
+  });
+
+  it("lets only one of two concurrent retries create the todo", async () => {
+    // Like a shared store, every call takes a round trip.
+    class RemoteIdempotencyStore extends InMemoryIdempotencyStore {
+      override async reserve(key: string, entry: IdempotencyEntry) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        return super.reserve(key, entry);
+      }
+    }
+    await startApp({ idempotencyStore: new RemoteIdempotencyStore(() => now.getTime()) });
+
+    const responses = await Promise.all([
+      createWithKey("key-5", { title: "Once" }),
+      createWithKey("key-5", { title: "Once" }),
+    ]);
+
+    const created = responses.filter((res) => res.status === 201 && !res.headers.has("Idempotent-Replayed"));
+    expect(created).toHaveLength(1);
+    expect((await (await request("/todos")).json()).total).toBe(1);
+  });
+
+  it("applies to /todos/bulk and /graphql too", async () => {
+    const bulk = JSON.stringify({ operations: [{ op: "create", data: { title: "Batch" } }] });
+    const graphql = JSON.stringify({ query: 'mutation { createTodo(input: { title: "Graph" }) { id } }' });
+    const post = (path: string, key: string, body: string) =>
+      request(path, { method: "POST", headers: { "Idempotency-Key": key }, body });
+
+    await post("/todos/bulk", "key-6", bulk);
+    expect((await post("/todos/bulk", "key-6", bulk)).headers.get("Idempotent-Replayed")).toBe("true");
+    await post("/graphql", "key-7", graphql);
+    expect((await post("/graphql", "key-7", graphql)).headers.get("Idempotent-Replayed")).toBe("true");
+    expect((await (await request("/todos")).json()).total).toBe(2);
+
+    // A GraphQL response with errors isn't replayed.
+    const invalid = JSON.stringify({ query: 'mutation { createTodo(input: { title: "" }) { id } }' });
+    await post("/graphql", "key-8", invalid);
+    expect((await post("/graphql", "key-8", invalid)).headers.get("Idempotent-Replayed")).toBeNull();
+  });
+
+  it("forgets keys after the TTL", async () => {
+    await createWithKey("key-4", { title: "Daily" });
+    now = new Date(now.getTime() + 24 * 60 * 60 * 1000 + 1);
+
+    const res = await createWithKey("key-4", { title: "Daily" });
+    expect(res.headers.get("Idempotent-Replayed")).toBeNull();
+    expect((await (await request("/todos")).json()).total).toBe(2);
+  });
+});
+
+describe("ETag / If-Match", () => {
+  it("returns an ETag that changes on every update", async () => {
+    const { id } = await createTodo("Draft");
+
+    const fetched = await request(`/todos/${id}`);
+    expect(fetched.headers.get("ETag")).toBe('"1"');
+
+    const patched = await request(`/todos/${id}`, { method: "PATCH", body: JSON.stringify({ title: "Final" }) });
+    expect(patched.headers.get("ETag")).toBe('"2"');
+    expect((await patched.json()).version).toBe(2);
+  });
+
+  it("answers 304 when If-None-Match matches", async () => {
+    const { id } = await createTodo("Cached");
+
+    const res = await request(`/todos/${id}`, { headers: { "If-None-Match": '"1"' } });
+    expect(res.status).toBe(304);
+
+    const stale = await request(`/todos/${id}`, { headers: { "If-None-Match": '"0"' } });
+    expect(stale.status).toBe(200);
+  });
+
+  it("rejects a PATCH with a stale If-Match and keeps the other editor's change", async () => {
+    const { id } = await createTodo("Shared");
+    await request(`/todos/${id}`, {
+      method: "PATCH",
+      headers: { "If-Match": '"1"' },
+      body: JSON.stringify({ title: "Alice" }),
+    });
+
+    const res = await request(`/todos/${id}`, {
+      method: "PATCH",
+      headers: { "If-Match": '"1"' },
+      body: JSON.stringify({ title: "Bob" }),
+    });
+
+    expect(res.status).toBe(412);
+    expect((await res.json()).error.code).toBe("PRECONDITION_FAILED");
+    expect((await (await request(`/todos/${id}`)).json()).title).toBe("Alice");
+  });
+
+  it("only deletes when If-Match is current", async () => {
+    const { id } = await createTodo("Old");
+
+    const stale = await request(`/todos/${id}`, { method: "DELETE", headers: { "If-Match": '"7"' } });
+    expect(stale.status).toBe(412);
+
+    const current = await request(`/todos/${id}`, { method: "DELETE", headers: { "If-Match": '"1"' } });
+    expect(current.status).toBe(204);
+  });
+});
+
+describe("rate limiting", () => {
+  beforeEach(async () => {
+    await startApp({
+      rateLimits: {
+        default: { limit: 5, windowMs: 60_000 },
+        createTodo: { limit: 2, windowMs: 60_000 },
+      },
+    });
+  });
+
+  it("returns 429 with Retry-After once the create budget is spent", async () => {
+    await createTodo("one");
+    await createTodo("two");
+
+    const res = await request("/todos", { method: "POST", body: JSON.stringify({ title: "three" }) });
+
+    expect(res.status).toBe(429);
+    expect(res.headers.get("Retry-After")).toBe("30");
+    expect(res.headers.get("RateLimit-Limit")).toBe("2");
+    expect(res.headers.get("RateLimit-Remaining")).toBe("0");
+    expect((await res.json()).error).toMatchObject({ code: "RATE_LIMITED", details: { retryAfterSeconds: 30 } });
+  });
+
+  it("refills the bucket as the clock advances", async () => {
+    await createTodo("one");
+    await createTodo("two");
+
+    now = new Date(now.getTime() + 30_000);
+    await createTodo("three");
+  });
+
+  it("charges creates through /todos/bulk and /graphql to the same budget", async () => {
+    const bulk = (titles: string[]) =>
+      request("/todos/bulk", {
+        method: "POST",
+        body: JSON.stringify({ operations: titles.map((title) => ({ op: "create", data: { title } })) }),
+      });
+
+    const tooMany = await bulk(["a", "b", "c"]);
+    expect(tooMany.status).toBe(429);
+    expect(tooMany.headers.get("Retry-After")).toBeNull();
+
+    expect((await bulk(["a"])).status).toBe(200);
+    const graphql = await request("/graphql", {
+      method: "POST",
+      body: JSON.stringify({ query: 'mutation { createTodo(input: { title: "b" }) { id } }' }),
+    });
+    expect((await graphql.json()).data.createTodo).toEqual({ id: "2" });
+
+    const limited = await request("/graphql", {
+      method: "POST",
+      body: JSON.stringify({ query: 'mutation { createTodo(input: { title: "c" }) { id } }' }),
+    });
+    expect(limited.headers.get("Retry-After")).toBe("30");
+    expect((await limited.json()).errors[0].extensions.code).toBe("RATE_LIMITED");
+    expect((await bulk(["c"])).status).toBe(429);
+    expect((await request("/todos", { method: "POST", body: JSON.stringify({ title: "c" }) })).status).toBe(429);
+  });
+
+  it("replays an idempotent create after the budget is spent", async () => {
+    const create = (title: string) =>
+      request("/todos", { method: "POST", headers: { "Idempotency-Key": "k1" }, body: JSON.stringify({ title }) });
+
+    const first = await create("one");
+    await createTodo("two");
+    const retry = await create("one");
+
+    expect(first.status).toBe(201);
+    expect(retry.status).toBe(201);
+    expect(await retry.json()).toEqual(await first.json());
+    expect((await request("/todos", { method: "POST", body: JSON.stringify({ title: "three" }) })).status).toBe(429);
+  });
+
+  it("keeps separate buckets per API key", async () => {
+    for (let i = 0; i < 5; i++) {
+      await request("/todos", { headers: { "X-Api-Key": "alice" } });
+    }
+
+    const alice = await request("/todos", { headers: { "X-Api-Key": "alice" } });
+    const bob = await request("/todos", { headers: { "X-Api-Key": "bob" } });
+
+    expect(alice.status).toBe(429);
+    expect(bob.status).toBe(200);
+    expect(bob.headers.get("RateLimit-Remaining")).toBe("4");
+  });
+});
+
+describe("bulk operations", () => {
+  function bulk(operations: unknown[]): Promise<globalThis.Response> {
+    return request("/todos/bulk", { method: "POST", body: JSON.stringify({ operations }) });
+  }
+
+  it("applies mixed operations and reports a result for each", async () => {
+    const a = await createTodo("a");
+    const b = await createTodo("b");
+
+    const res = await bulk([
+      { op: "create", data: { title: "c" } },
+      { op: "update", id: a.id, data: { completed: true }, ifMatch: '"1"' },
+      { op: "delete", id: b.id },
+    ]);
+
+    expect(res.status).toBe(200);
+    expect((await res.json()).results).toMatchObject([
+      { op: "create", status: 201, todo: { title: "c" } },
+      { op: "update", status: 200, todo: { id: a.id, completed: true, version: 2 } },
+      { op: "delete", status: 204, id: b.id },
+    ]);
+    expect((await (await request("/todos")).json()).items.map((t: { title: string }) => t.title)).toEqual(["a", "c"]);
+  });
+
+  it("applies nothing when one operation fails", async () => {
+    const a = await createTodo("a");
+
+    const res = await bulk([
+      { op: "update", id: a.id, data: { completed: true } },
+      { op: "create", data: { title: "never" } },
+      { op: "delete", id: "999" },
+    ]);
+
+    expect(res.status).toBe(404);
+    expect((await res.json()).error.details).toEqual({ operation: 2, id: "999" });
+
+    const list = await (await request("/todos")).json();
+    expect(list.total).toBe(1);
+    expect(list.items[0]).toMatchObject({ completed: false, version: 1 });
+  });
+
+  it("reports validation errors by operation path", async () => {
+    const res = await bulk([{ op: "create", data: { title: "ok" } }, { op: "create", data: { title: "" } }]);
+
+    expect(res.status).toBe(422);
+    expect((await res.json()).error.details).toEqual({ "operations.1.data.title": ["Title is required"] });
+  });
+
+  it("clears completed todos with DELETE /todos?completed=true", async () => {
+    const done = await createTodo("done");
+    await createTodo("open");
+    await request(`/todos/${done.id}`, { method: "PATCH", body: JSON.stringify({ completed: true }) });
+
+    const res = await request("/todos?completed=true", { method: "DELETE" });
+    expect(await res.json()).toEqual({ deleted: 1, ids: [done.id] });
+
+    const bare = await request("/todos", { method: "DELETE" });
+    expect(bare.status).toBe(422);
+    expect((await (await request("/todos")).json()).total).toBe(1);
+  });
+});
+
+describe("change feed", () => {
+  interface SseMessage {
+    id?: string;
+    event?: string;
+    data?: string;
+    comment?: string;
+  }
+
+  const openStreams: AbortController[] = [];
+
+  afterEach(() => {
+    openStreams.splice(0).forEach((controller) => controller.abort());
+  });
+
+  // Opens GET /todos/events and returns a reader that yields one parsed
+  // message (or comment) at a time.
+  async function openEventStream(headers: Record<string, string> = {}, query = "") {
+    const controller = new AbortController();
+    openStreams.push(controller);
+    const res = await fetch(`${baseUrl}/todos/events${query}`, {
+      headers: { Authorization: `Bearer ${tokenFor("alice")}`, ...headers },
+      signal: controller.signal,
+    });
+    const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let buffered = "";
+
+    async function next(): Promise<SseMessage> {
+      while (!buffered.includes("\n\n")) {
+        const { value, done } = await reader.read();
+        if (done) throw new Error("Event stream ended");
+        buffered += value;
+      }
+      const end = buffered.indexOf("\n\n");
+      const block = buffered.slice(0, end);
+      buffered = buffered.slice(end + 2);
+
+      const message: SseMessage = {};
+      for (const line of block.split("\n")) {
+        if (line.startsWith(":")) {
+          message.comment = line.slice(1).trim();
+        } else {
+          const colon = line.indexOf(": ");
+          message[line.slice(0, colon) as "id" | "event" | "data"] = line.slice(colon + 2);
+        }
+      }
+      return message;
+    }
+
+    return { res, next };
+  }
+
+  it("streams every write with the full todo and increasing ids", async () => {
+    const stream = await openEventStream();
+    expect(stream.res.headers.get("content-type")).toMatch(/text\/event-stream/);
+
+    const { id } = await createTodo("Buy milk");
+    await request(`/todos/${id}`, { method: "PATCH", body: JSON.stringify({ completed: true }) });
+    await request(`/todos/${id}`, { method: "DELETE" });
+    await request("/todos/bulk", {
+      method: "POST",
+      body: JSON.stringify({ operations: [{ op: "create", data: { title: "Call mom" } }] }),
+    });
+
+    const messages = [await stream.next(), await stream.next(), await stream.next(), await stream.next()];
+    expect(messages.map((m) => [m.id, m.event])).toEqual([
+      ["1", "todo.created"],
+      ["2", "todo.updated"],
+      ["3", "todo.deleted"],
+      ["4", "todo.created"],
+    ]);
+    expect(JSON.parse(messages[0]!.data!)).toMatchObject({ id, title: "Buy milk", completed: false, version: 1 });
+    expect(JSON.parse(messages[2]!.data!)).toMatchObject({ id, completed: true, version: 2 });
+  });
+
+  it("replays missed events after Last-Event-ID", async () => {
+    await createTodo("a");
+    await createTodo("b");
+    await createTodo("c");
+
+    const stream = await openEventStream({ "Last-Event-ID": "1" });
+    const replayed = [await stream.next(), await stream.next()];
+    expect(replayed.map((m) => JSON.parse(m.data!).title)).toEqual(["b", "c"]);
+
+    await createTodo("d");
+    expect(await stream.next()).toMatchObject({ id: "4", event: "todo.created" });
+  });
+
+  it("sends stream.reset when Last-Event-ID is no longer buffered", async () => {
+    await startApp({ changeFeed: { bufferSize: 2, heartbeatMs: 60_000 } });
+    for (const title of ["a", "b", "c", "d"]) {
+      await createTodo(title);
+    }
+
+    const evicted = await openEventStream({ "Last-Event-ID": "1" });
+    expect(await evicted.next()).toMatchObject({ event: "stream.reset" });
+
+    // An id from before a restart is ahead of this process's counter.
+    const future = await openEventStream({ "Last-Event-ID": "99" });
+    expect(await future.next()).toMatchObject({ event: "stream.reset" });
+
+    const covered = await openEventStream({ "Last-Event-ID": "2" });
+    expect(await covered.next()).toMatchObject({ id: "3" });
+  });
+
+  it("only streams the caller's todos", async () => {
+    const stream = await openEventStream();
+
+    await request("/todos", {
+      method: "POST",
+      headers: { Authorization: `Bearer ${tokenFor("bob")}` },
+      body: JSON.stringify({ title: "Bob's" }),
+    });
+    await createTodo("Alice's");
+
+    expect(await stream.next()).toMatchObject({ id: "2", event: "todo.created" });
+  });
+
+  it("accepts a short-lived stream token in the query, for EventSource", async () => {
+    const minted = await request("/todos/events/token", { method: "POST" });
+    const { token, expiresInSeconds } = await minted.json();
+    expect(expiresInSeconds).toBe(60);
+
+    // EventSource sends no Authorization header.
+    const stream = await openEventStream({ Authorization: "" }, `?access_token=${token}`);
+    expect(stream.res.status).toBe(200);
+    await createTodo("Alice's");
+    expect(await stream.next()).toMatchObject({ id: "1", event: "todo.created" });
+
+    // Stream tokens only work on the change feed, and only from the query;
+    // bearer tokens don't belong in URLs.
+    expect((await fetch(`${baseUrl}/todos?access_token=${token}`)).status).toBe(401);
+    expect((await request("/todos", { headers: { Authorization: `Bearer ${token}` } })).status).toBe(401);
+    expect((await fetch(`${baseUrl}/todos/events?access_token=${tokenFor("alice")}`)).status).toBe(401);
+
+    now = new Date(now.getTime() + 61_000);
+    expect((await fetch(`${baseUrl}/todos/events?access_token=${token}`)).status).toBe(401);
+  });
+
+  it("sends heartbeats on an idle stream", async () => {
+    await startApp({ changeFeed: { bufferSize: 10, heartbeatMs: 20 } });
+
+    const stream = await openEventStream();
+    expect(await stream.next()).toEqual({ comment: "heartbeat" });
+  });
+});
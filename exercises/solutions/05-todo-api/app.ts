@@ -0,0 +1,325 @@
+// --- App Factory ---
+// Builds the Express app without listening on a port, so tests can import it
+// and run requests in-process. Everything stateful or non-deterministic
+// (storage, time, ids) comes in through `deps`. Routes only translate HTTP
+// to and from the TodoService, which the GraphQL endpoint shares.
+
+import express, { Express, NextFunction, Request, Response } from "express";
+import { randomUUID } from "node:crypto";
+import { MetricsRegistry } from "../shared/metrics";
+import { authenticate, Principal, signToken, streamTokenAudience, streamTokenTtlSeconds } from "./auth";
+import { ChangeFeedOptions, changeFeedHandler, TodoChangeFeed } from "./change-feed";
+import { docsPageHtml } from "./docs";
+import { ErrorResponseBody, NotFoundError, UnauthorizedError, formatError, parseOrThrow, toAppError } from "./errors";
+import { ifNoneMatchSatisfied, todoEtag } from "./etag";
+import { executeGraphql, GraphqlResponse, graphqlRequestSchema } from "./graphql";
+import { httpMetrics } from "./http-metrics";
+import { idempotency, IdempotencyStore, InMemoryIdempotencyStore } from "./idempotency";
+import { buildOpenApiDocument } from "./openapi";
+import { createRateLimiter, InMemoryRateLimitStore, rateLimit, RateLimitPolicy, RateLimitStore } from "./rate-limit";
+import { currentPrincipal, currentRequestId, log, requestContextMiddleware, setTodoId } from "./request-context";
+import { createTodoEventBus, TodoEventBus } from "./todo-events";
+import { bulkRequestSchema, createTodoSchema, deleteTodosQuerySchema, listTodosQuerySchema, updateTodoSchema } from "./todo";
+import type { TodoRepository } from "./todo-repository";
+import { createTodoService } from "./todo-service";
+
+export type Clock = () => Date;
+export type IdGenerator = () => string;
+
+export interface TodoAppDeps {
+  repository: TodoRepository;
+  // HS256 secret that bearer tokens on /todos and /graphql are verified with.
+  auth: { secret: string };
+  clock?: Clock;
+  generateId?: IdGenerator;
+  idempotencyStore?: IdempotencyStore;
+  // How long an Idempotency-Key is remembered. Defaults to 24 hours.
+  idempotencyTtlMs?: number;
+  rateLimitStore?: RateLimitStore;
+  // Per-client limits: `default` covers every route, `createTodo` is an extra,
+  // stricter budget for POST /todos.
+  rateLimits?: { default: RateLimitPolicy; createTodo: RateLimitPolicy };
+  // Every successful write is published here. Pass one in to observe them.
+  events?: TodoEventBus;
+  changeFeed?: ChangeFeedOptions;
+  // True once graceful shutdown has started; GET /ready then answers 503 so
+  // load balancers stop routing here before the port closes.
+  isShuttingDown?: () => boolean;
+  // Served at GET /metrics. Pass a shared registry to expose other metrics
+  // (e.g. task queue gauges) from the same endpoint.
+  metrics?: MetricsRegistry;
+}
+
+// "1", "2", "3", ... — readable ids for local runs and tests.
+export function createSequentialIdGenerator(start = 1): IdGenerator {
+  let next = start;
+  return () => String(next++);
+}
+
+// The caller recorded by `authenticate`. Only used on routes mounted behind it.
+function caller(): Principal {
+  const principal = currentPrincipal();
+  if (!principal) {
+    throw new UnauthorizedError("Missing bearer token");
+  }
+  return principal;
+}
+
+// Express 4 doesn't forward rejected promises to the error middleware,
+// so async handlers are wrapped to pass failures to next().
+function asyncHandler<P>(
+  handler: (req: Request<P>, res: Response) => Promise<void>,
+): (req: Request<P>, res: Response, next: NextFunction) => void {
+  return (req, res, next) => {
+    handler(req, res).catch(next);
+  };
+}
+
+export function createTodoApp(deps: TodoAppDeps): Express {
+  const {
+    repository,
+    auth,
+    clock = () => new Date(),
+    generateId = randomUUID,
+    idempotencyStore = new InMemoryIdempotencyStore(() => clock().getTime()),
+    idempotencyTtlMs = 24 * 60 * 60 * 1000,
+    rateLimitStore = new InMemoryRateLimitStore(),
+    rateLimits = {
+      default: { limit: 100, windowMs: 60_000 },
+      createTodo: { limit: 20, windowMs: 60_000 },
+    },
+    events = createTodoEventBus(),
+    changeFeed = { bufferSize: 1000, heartbeatMs: 15_000 },
+    isShuttingDown = () => false,
+    metrics = new MetricsRegistry(),
+  } = deps;
+  const app = express();
+  const now = () => clock().getTime();
+  const idempotencyOptions = { store: idempotencyStore, ttlMs: idempotencyTtlMs, now, scope: () => caller().userId };
+  const idempotentPost = idempotency(idempotencyOptions);
+  const idempotentGraphql = idempotency({
+    ...idempotencyOptions,
+    succeeded: (status, body) => status === 200 && !(body as GraphqlResponse["body"]).errors,
+  });
+  const service = createTodoService({ repository, clock, generateId, events });
+
+  const openApiDocument = buildOpenApiDocument();
+  const feed = new TodoChangeFeed(events, changeFeed.bufferSize);
+  // Creates spend the same create-todo budget whichever route they come
+  // through: POST /todos up front, /todos/bulk and /graphql per todo created.
+  const createTodoLimits = { name: "create-todo", store: rateLimitStore, now, ...rateLimits.createTodo };
+  const createTodoRateLimit = rateLimit(createTodoLimits);
+  const chargeCreates = createRateLimiter(createTodoLimits);
+
+  // --- Middleware ---
+
+  app.use(requestContextMiddleware);
+  app.use(httpMetrics(metrics));
+
+  // GET /health — liveness: the process is up and serving HTTP.
+  app.get("/health", (_req: Request, res: Response) => {
+    res.json({ status: "ok" });
+  });
+
+  // GET /ready — readiness: 503 while the store is failing or the server is
+  // shutting down. Probes are registered ahead of rate limiting so frequent
+  // polling can't lock them out.
+  app.get("/ready", asyncHandler(async (_req, res) => {
+    const store = await repository.healthCheck().then(
+      () => "ok" as const,
+      (err: unknown) => {
+        log("warn", "health.store_failing", { message: err instanceof Error ? err.message : String(err) });
+        return "failing" as const;
+      },
+    );
+    const server = isShuttingDown() ? "shutting_down" : "ok";
+    const ready = store === "ok" && server === "ok";
+
+    res.status(ready ? 200 : 503).json({ status: ready ? "ready" : "not_ready", checks: { store, server } });
+  }));
+
+  // GET /metrics — Prometheus text format; unlimited like the probes, since
+  // a scraper polls it on a fixed interval.
+  app.get("/metrics", (_req: Request, res: Response) => {
+    res.type(metrics.contentType).send(metrics.render());
+  });
+
+  app.use(rateLimit({ name: "default", store: rateLimitStore, now, ...rateLimits.default }));
+  app.use(express.json());
+
+  // Every /todos/:id route records the id for the access log.
+  app.param("id", (_req: Request, _res: Response, next: NextFunction, id: string) => {
+    setTodoId(id);
+    next();
+  });
+
+  // Everything about todos needs a bearer token; probes, metrics and the
+  // docs stay public. The change feed also takes a stream token in the query.
+  app.use(
+    ["/todos", "/graphql"],
+    authenticate({
+      secret: auth.secret,
+      now: clock,
+      acceptsStreamToken: (req) => req.method === "GET" && `${req.baseUrl}${req.path}` === "/todos/events",
+    }),
+  );
+
+  // --- Routes ---
+
+  // GET /openapi.json — the OpenAPI 3.1 document; GET /docs renders it
+  app.get("/openapi.json", (_req: Request, res: Response) => {
+    res.json(openApiDocument);
+  });
+
+  app.get("/docs", (_req: Request, res: Response) => {
+    res.type("html").send(docsPageHtml);
+  });
+
+  // GET /todos — paginated list
+  //   ?completed=true|false  ?overdue=true|false
+  //   ?tag=work&tag=urgent (all must match)  ?priority=high&priority=urgent (any)
+  //   ?q=milk (search title and description)
+  //   ?sort=createdAt|title&order=asc|desc
+  //   ?limit=20 plus either ?cursor=<nextCursor> or ?offset=40
+  // Responds with { items, nextCursor, total }; nextCursor is null on the last page.
+  app.get("/todos", asyncHandler(async (req, res) => {
+    res.json(await service.list(caller(), parseOrThrow(listTodosQuerySchema, req.query)));
+  }));
+
+  // POST /todos — create a new todo
+  // Send an Idempotency-Key header to make retries safe. The key is checked
+  // before the create budget, so replaying a stored response costs nothing.
+  app.post("/todos", idempotentPost, createTodoRateLimit, asyncHandler(async (req, res) => {
+    const todo = await service.create(caller(), parseOrThrow(createTodoSchema, req.body));
+    setTodoId(todo.id);
+    res.status(201).setHeader("ETag", todoEtag(todo)).json(todo);
+  }));
+
+  // DELETE /todos?completed=true — clear the caller's completed todos
+  // (everyone's for an admin)
+  app.delete("/todos", asyncHandler(async (req, res) => {
+    parseOrThrow(deleteTodosQuerySchema, req.query);
+    const deleted = await service.deleteCompleted(caller());
+    res.json({ deleted: deleted.length, ids: deleted.map((todo) => todo.id) });
+  }));
+
+  // POST /todos/bulk — apply create/update/delete operations atomically
+  // Body: { operations: [{ op: "create", data }, { op: "update", id, data, ifMatch? }, { op: "delete", id, ifMatch? }] }
+  // Either every operation is applied and 200 lists a result per operation,
+  // or none is and the error names the failing `operation` index.
+  // Each create spends a token of the create budget; Idempotency-Key works
+  // as on POST /todos.
+  app.post("/todos/bulk", idempotentPost, asyncHandler(async (req, res) => {
+    const { operations } = parseOrThrow(bulkRequestSchema, req.body);
+    const creates = operations.filter((operation) => operation.op === "create").length;
+    if (creates > 0) {
+      await chargeCreates(req, res, creates);
+    }
+    const results = await service.applyBulk(caller(), operations);
+
+    res.json({
+      results: results.map((result) =>
+        result.op === "delete"
+          ? { op: result.op, status: 204, id: result.todo.id }
+          : { op: result.op, status: result.op === "create" ? 201 : 200, todo: result.todo },
+      ),
+    });
+  }));
+
+  // GET /todos/events — Server-Sent Events stream of todo.created,
+  // todo.updated and todo.deleted for the caller's todos. Registered before
+  // /todos/:id so "events" isn't taken for an id. Reconnect with
+  // Last-Event-ID to resume.
+  app.get("/todos/events", changeFeedHandler(feed, changeFeed.heartbeatMs));
+
+  // POST /todos/events/token — a stream token for
+  // GET /todos/events?access_token=<token>, for browsers' EventSource, which
+  // can't send an Authorization header. Valid for a minute and only on that
+  // route; it's checked when the stream opens, so an open stream outlives it.
+  app.post("/todos/events/token", (_req: Request, res: Response) => {
+    const token = signToken(caller(), {
+      secret: auth.secret,
+      now: clock(),
+      expiresInSeconds: streamTokenTtlSeconds,
+      audience: streamTokenAudience,
+    });
+    res.json({ token, expiresInSeconds: streamTokenTtlSeconds });
+  });
+
+  // GET /todos/:id — get a single todo
+  // Responds 304 when If-None-Match already names the current ETag.
+  app.get("/todos/:id", asyncHandler<{ id: string }>(async (req, res) => {
+    const todo = await service.findById(caller(), req.params.id);
+
+    if (!todo) {
+      throw new NotFoundError("Todo not found", { id: req.params.id });
+    }
+
+    const etag = todoEtag(todo);
+    res.setHeader("ETag", etag);
+
+    const ifNoneMatch = req.get("If-None-Match");
+    if (ifNoneMatch !== undefined && !ifNoneMatchSatisfied(ifNoneMatch, etag)) {
+      res.status(304).end();
+      return;
+    }
+
+    res.json(todo);
+  }));
+
+  // PATCH /todos/:id — partial update
+  // Send If-Match: "<version>" to fail with 412 instead of overwriting
+  // someone else's change.
+  app.patch("/todos/:id", asyncHandler<{ id: string }>(async (req, res) => {
+    const changes = parseOrThrow(updateTodoSchema, req.body);
+    const updated = await service.update(caller(), req.params.id, changes, req.get("If-Match"));
+    res.setHeader("ETag", todoEtag(updated)).json(updated);
+  }));
+
+  // DELETE /todos/:id — delete a todo (honors If-Match like PATCH)
+  app.delete("/todos/:id", asyncHandler<{ id: string }>(async (req, res) => {
+    await service.delete(caller(), req.params.id, req.get("If-Match"));
+    res.status(204).send();
+  }));
+
+  // POST /graphql — { query, variables?, operationName? }
+  // Queries todos (cursor pagination and filters) and todo(id); mutations
+  // createTodo, updateTodo and deleteTodo. See schema.graphql.
+  // createTodo spends the create budget; an Idempotency-Key replays the whole
+  // response, but only when it has no errors.
+  app.post("/graphql", idempotentGraphql, asyncHandler(async (req, res) => {
+    const { status, body } = await executeGraphql(
+      service,
+      caller(),
+      parseOrThrow(graphqlRequestSchema, req.body),
+      currentRequestId(),
+      () => chargeCreates(req, res),
+    );
+    res.status(status).json(body);
+  }));
+
+  // --- Error Handling Middleware ---
+
+  // Anything that fell through every route gets the same not-found envelope.
+  app.use((req: Request, _res: Response, next: NextFunction) => {
+    next(new NotFoundError(`Route ${req.method} ${req.path} not found`));
+  });
+
+  app.use((err: unknown, req: Request, res: Response<ErrorResponseBody>, _next: NextFunction) => {
+    const error = toAppError(err);
+
+    if (error.status >= 500) {
+      const cause = error.cause ?? error;
+      log("error", "http.unhandled_error", {
+        method: req.method,
+        path: req.path,
+        message: cause instanceof Error ? cause.message : String(cause),
+        stack: cause instanceof Error ? cause.stack : undefined,
+      });
+    }
+
+    res.status(error.status).json(formatError(error, currentRequestId()));
+  });
+
+  return app;
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { createHmac } from "node:crypto";
+import { signToken, verifyToken } from "./auth";
+
+// Tokens are plain strings, so edge cases are built by hand here rather than
+// through HTTP; app.test.ts covers the middleware.
+
+const secret = "auth-test-secret-0123456789abcdef";
+const now = new Date("2026-01-01T00:00:00.000Z");
+const seconds = now.getTime() / 1000;
+
+const segment = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+function handSigned(header: unknown, claims: unknown): string {
+  const input = `${segment(header)}.${segment(claims)}`;
+  return `${input}.${createHmac("sha256", secret).update(input).digest("base64url")}`;
+}
+
+describe("verifyToken", () => {
+  it("accepts tokens from signToken and defaults the role to user", () => {
+    const token = signToken({ userId: "alice", role: "admin" }, { secret, now, expiresInSeconds: 60 });
+    expect(verifyToken(token, secret, now)).toEqual({ userId: "alice", role: "admin" });
+
+    const withoutRole = handSigned({ alg: "HS256", typ: "JWT" }, { sub: "bob", exp: seconds + 60 });
+    expect(verifyToken(withoutRole, secret, now)).toEqual({ userId: "bob", role: "user" });
+  });
+
+  it("rejects tampered, unsigned and malformed tokens", () => {
+    const token = signToken({ userId: "alice", role: "user" }, { secret, now, expiresInSeconds: 60 });
+    const [header, , signature] = token.split(".");
+    const promoted = `${header}.${segment({ sub: "alice", role: "admin", exp: seconds + 60 })}.${signature}`;
+    const unsigned = `${segment({ alg: "none" })}.${segment({ sub: "alice", exp: seconds + 60 })}.`;
+
+    for (const bad of [promoted, unsigned, "not-a-token", `${token}.extra`, ""]) {
+      expect(() => verifyToken(bad, secret, now), bad).toThrow("Invalid bearer token");
+    }
+    expect(() => verifyToken(token, "another-secret-0123456789abcdef!", now)).toThrow("Invalid bearer token");
+  });
+
+  it("rejects tokens with unusable claims", () => {
+    const header = { alg: "HS256" };
+    expect(() => verifyToken(handSigned(header, { sub: "alice" }), secret, now)).toThrow("Invalid bearer token");
+    expect(() => verifyToken(handSigned(header, { sub: "", exp: seconds + 60 }), secret, now)).toThrow("Invalid");
+    expect(() => verifyToken(handSigned(header, { sub: "a", role: "root", exp: seconds + 60 }), secret, now)).toThrow(
+      "Invalid",
+    );
+  });
+
+  it("enforces exp and nbf", () => {
+    const header = { alg: "HS256" };
+    expect(() => verifyToken(handSigned(header, { sub: "a", exp: seconds }), secret, now)).toThrow("has expired");
+    expect(() => verifyToken(handSigned(header, { sub: "a", exp: seconds + 60, nbf: seconds + 30 }), secret, now)).toThrow(
+      "not valid yet",
+    );
+  });
+});
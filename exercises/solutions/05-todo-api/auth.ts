@@ -0,0 +1,164 @@
+// --- Authentication ---
+// Callers send `Authorization: Bearer <token>`, where the token is a JWT
+// signed with HS256 and the configured secret. Verification is a local HMAC
+// check, so no identity provider is involved per request (or at all when
+// running locally: signToken mints tokens with the same secret).
+//
+// Claims used: `sub` is the user id todos are owned by, `role` is "user"
+// (the default) or "admin", and `exp` is required.
+//
+// Browsers' EventSource can't set headers, so GET /todos/events also takes a
+// stream token as `?access_token=`. Stream tokens are minted by POST
+// /todos/events/token, live for a minute and carry `aud: "todo-events"`;
+// bearer tokens carry no `aud`. Each kind is rejected where the other is
+// expected, so a token that ends up in a URL only ever opens the change feed.
+
+import type { NextFunction, Request, Response } from "express";
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { z } from "zod";
+import { UnauthorizedError } from "./errors";
+import { setPrincipal } from "./request-context";
+
+export const roles = ["user", "admin"] as const;
+export type Role = (typeof roles)[number];
+
+// The authenticated caller.
+export interface Principal {
+  userId: string;
+  role: Role;
+}
+
+// Admins can see and change every todo; users only their own.
+export function canAccess(principal: Principal, ownerId: string): boolean {
+  return principal.role === "admin" || principal.userId === ownerId;
+}
+
+const headerSchema = z.object({ alg: z.literal("HS256"), typ: z.literal("JWT").optional() });
+
+const claimsSchema = z.object({
+  sub: z.string().min(1).max(128),
+  role: z.enum(roles).default("user"),
+  exp: z.number(),
+  nbf: z.number().optional(),
+  aud: z.string().optional(),
+});
+
+export const streamTokenAudience = "todo-events";
+export const streamTokenTtlSeconds = 60;
+
+function hmac(input: string, secret: string): Buffer {
+  return createHmac("sha256", secret).update(input).digest();
+}
+
+function decodeSegment(segment: string): unknown {
+  try {
+    return JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+  } catch {
+    return undefined;
+  }
+}
+
+const encodeSegment = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+export interface SignTokenOptions {
+  secret: string;
+  now: Date;
+  expiresInSeconds: number;
+  audience?: string;
+}
+
+export function signToken(principal: Principal, options: SignTokenOptions): string {
+  const iat = Math.floor(options.now.getTime() / 1000);
+  const header = encodeSegment({ alg: "HS256", typ: "JWT" });
+  const payload = encodeSegment({
+    sub: principal.userId,
+    role: principal.role,
+    iat,
+    exp: iat + options.expiresInSeconds,
+    ...(options.audience !== undefined && { aud: options.audience }),
+  });
+  const signature = hmac(`${header}.${payload}`, options.secret).toString("base64url");
+  return `${header}.${payload}.${signature}`;
+}
+
+// Throws UnauthorizedError unless the token is well-formed, signed with
+// `secret` and currently valid. The header must say HS256: the algorithm is
+// checked, never taken from the token, which rules out "alg": "none".
+// The token's `aud` must be exactly `audience` (both absent for bearer tokens).
+export function verifyToken(token: string, secret: string, now: Date, audience?: string): Principal {
+  const invalid = () => new UnauthorizedError("Invalid bearer token");
+  const [header, payload, signature, ...rest] = token.split(".");
+  if (header === undefined || payload === undefined || signature === undefined || rest.length > 0) {
+    throw invalid();
+  }
+  if (!headerSchema.safeParse(decodeSegment(header)).success) {
+    throw invalid();
+  }
+
+  const expected = hmac(`${header}.${payload}`, secret);
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw invalid();
+  }
+
+  const claims = claimsSchema.safeParse(decodeSegment(payload));
+  if (!claims.success || claims.data.aud !== audience) {
+    throw invalid();
+  }
+
+  const seconds = now.getTime() / 1000;
+  if (claims.data.exp <= seconds) {
+    throw new UnauthorizedError("Bearer token has expired");
+  }
+  if (claims.data.nbf !== undefined && claims.data.nbf > seconds) {
+    throw new UnauthorizedError("Bearer token is not valid yet");
+  }
+
+  return { userId: claims.data.sub, role: claims.data.role };
+}
+
+export interface AuthenticateOptions {
+  secret: string;
+  now: () => Date;
+  // Requests that may send a stream token as ?access_token= instead of the
+  // Authorization header.
+  acceptsStreamToken?: (req: Request) => boolean;
+}
+
+// The token a request authenticates with and the audience it must have:
+// the Authorization header, or where allowed a stream token in the query.
+function credentials(req: Request, acceptsStreamToken: boolean): { token: string; audience?: string } | undefined {
+  const bearer = /^Bearer\s+(\S+)$/i.exec(req.get("Authorization") ?? "");
+  if (bearer) {
+    return { token: bearer[1]! };
+  }
+  const token = req.query.access_token;
+  if (acceptsStreamToken && typeof token === "string") {
+    return { token, audience: streamTokenAudience };
+  }
+  return undefined;
+}
+
+// Rejects requests without a valid token with 401 and records the caller in
+// the request context for the handlers and the access log.
+export function authenticate(options: AuthenticateOptions) {
+  const { secret, now, acceptsStreamToken = () => false } = options;
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const credential = credentials(req, acceptsStreamToken(req));
+    if (!credential) {
+      res.setHeader("WWW-Authenticate", 'Bearer realm="todo-api"');
+      next(new UnauthorizedError("Missing bearer token"));
+      return;
+    }
+
+    try {
+      setPrincipal(verifyToken(credential.token, secret, now(), credential.audience));
+    } catch (err) {
+      res.setHeader("WWW-Authenticate", 'Bearer realm="todo-api", error="invalid_token"');
+      next(err);
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,63 @@
+// --- Batch Loader ---
+// DataLoader-style batching: every `load` made while one tick runs is
+// collected and answered by a single call to `batch`, and each key is fetched
+// at most once per loader. Create loaders per request, so cached results
+// never leak from one request into another.
+
+interface PendingLoad<K, V> {
+  key: K;
+  resolve: (value: V) => void;
+  reject: (error: unknown) => void;
+}
+
+export class BatchLoader<K, V> {
+  private cache = new Map<K, Promise<V>>();
+  private queue: PendingLoad<K, V>[] = [];
+
+  // `batch` must return one value per key, in the same order. An Error in
+  // place of a value rejects only that key's load.
+  constructor(private readonly batch: (keys: readonly K[]) => Promise<(V | Error)[]>) {}
+
+  load(key: K): Promise<V> {
+    const cached = this.cache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const promise = new Promise<V>((resolve, reject) => {
+      this.queue.push({ key, resolve, reject });
+      if (this.queue.length === 1) {
+        this.scheduleDispatch();
+      }
+    });
+    this.cache.set(key, promise);
+    return promise;
+  }
+
+  // Let promise callbacks that are already queued run first (resolvers for
+  // sibling fields often start in those), then dispatch before any I/O.
+  private scheduleDispatch(): void {
+    void Promise.resolve().then(() => process.nextTick(() => this.dispatch()));
+  }
+
+  private dispatch(): void {
+    const queue = this.queue;
+    this.queue = [];
+
+    this.batch(queue.map((pending) => pending.key))
+      .then((values) => {
+        if (values.length !== queue.length) {
+          throw new Error(`Batch returned ${values.length} values for ${queue.length} keys`);
+        }
+        queue.forEach((pending, index) => {
+          const value = values[index];
+          if (value instanceof Error) {
+            pending.reject(value);
+          } else {
+            pending.resolve(value as V);
+          }
+        });
+      })
+      .catch((error: unknown) => queue.forEach((pending) => pending.reject(error)));
+  }
+}
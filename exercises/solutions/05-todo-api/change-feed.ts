@@ -0,0 +1,113 @@
+// --- Change Feed ---
+// Turns todo events into a Server-Sent Events stream. Each event gets the
+// next id from a per-process counter, and the most recent ones are kept in a
+// bounded buffer so a client reconnecting with Last-Event-ID receives what it
+// missed instead of having to refetch everything.
+//
+// When the client's Last-Event-ID is no longer covered (it fell out of the
+// buffer, or came from before a server restart) the stream starts with a
+// `stream.reset` event: the client should reload GET /todos and carry on
+// from there.
+//
+// Each client only receives events for todos it can access (all of them for
+// admins); event ids stay global, so a client may see gaps between them.
+
+import type { Request, Response } from "express";
+import { canAccess } from "./auth";
+import { currentPrincipal } from "./request-context";
+import type { Todo } from "./todo";
+import { TodoEventBus, todoEventTypes, TodoEventType } from "./todo-events";
+
+export interface TodoChangeEvent {
+  id: number;
+  type: TodoEventType;
+  todo: Todo;
+}
+
+export interface ChangeFeedOptions {
+  // How many recent events can be replayed to reconnecting clients.
+  bufferSize: number;
+  // Comment lines keep idle connections from being closed by proxies.
+  heartbeatMs: number;
+}
+
+export class TodoChangeFeed {
+  private nextId = 1;
+  private buffer: TodoChangeEvent[] = [];
+  private listeners = new Set<(event: TodoChangeEvent) => void>();
+
+  constructor(bus: TodoEventBus, private readonly bufferSize: number) {
+    for (const type of todoEventTypes) {
+      bus.on(type, (todo) => this.record(type, todo));
+    }
+  }
+
+  // Returns an unsubscribe function.
+  subscribe(listener: (event: TodoChangeEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Events after `lastEventId`, or undefined if the buffer can't tell what
+  // the client missed.
+  replaySince(lastEventId: number): TodoChangeEvent[] | undefined {
+    const latestId = this.nextId - 1;
+    const oldestId = this.buffer[0]?.id ?? this.nextId;
+    if (lastEventId > latestId || lastEventId < oldestId - 1) {
+      return undefined;
+    }
+    return this.buffer.filter((event) => event.id > lastEventId);
+  }
+
+  private record(type: TodoEventType, todo: Todo): void {
+    const event: TodoChangeEvent = { id: this.nextId++, type, todo };
+    this.buffer.push(event);
+    if (this.buffer.length > this.bufferSize) {
+      this.buffer.shift();
+    }
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
+
+function formatEvent(event: TodoChangeEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.todo)}\n\n`;
+}
+
+export function changeFeedHandler(feed: TodoChangeFeed, heartbeatMs: number) {
+  return (req: Request, res: Response): void => {
+    // Mounted behind authenticate; without a caller nothing is visible.
+    const principal = currentPrincipal();
+    const visible = (event: TodoChangeEvent) => principal !== undefined && canAccess(principal, event.todo.ownerId);
+
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.flushHeaders();
+
+    // Replay and subscribe happen in the same tick, so no event can fall
+    // between the two.
+    const lastEventId = req.get("Last-Event-ID");
+    if (lastEventId !== undefined) {
+      const missed = /^\d+$/.test(lastEventId) ? feed.replaySince(Number(lastEventId)) : undefined;
+      if (missed) {
+        missed.filter(visible).forEach((event) => res.write(formatEvent(event)));
+      } else {
+        res.write(`event: stream.reset\ndata: {}\n\n`);
+      }
+    }
+
+    const unsubscribe = feed.subscribe((event) => {
+      if (visible(event)) {
+        res.write(formatEvent(event));
+      }
+    });
+    const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), heartbeatMs);
+
+    res.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  };
+}
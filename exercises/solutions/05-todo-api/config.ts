@@ -0,0 +1,46 @@
+// --- Configuration ---
+// Environment variables are external input too, so they are validated once at
+// startup and the server refuses to boot with a readable message otherwise.
+//   PORT=3000
+//   TODO_STORE=memory (default) | file
+//   TODO_STORE_FILE=./data/todos.json
+//   IDEMPOTENCY_TTL_MS=86400000
+//   RATE_LIMIT_WINDOW_MS=60000
+//   RATE_LIMIT_MAX=100           requests per client per window, all routes
+//   RATE_LIMIT_CREATE_MAX=20     POST /todos per client per window
+//   CHANGE_FEED_BUFFER_SIZE=1000 events kept for Last-Event-ID replay
+//   CHANGE_FEED_HEARTBEAT_MS=15000
+//   SHUTDOWN_TIMEOUT_MS=10000    how long SIGTERM waits for in-flight requests
+//   JWT_SECRET=<32+ characters>  HS256 secret for bearer tokens; when unset a
+//                                random one is used and dev tokens are printed
+
+import { z } from "zod";
+
+const envSchema = z.object({
+  PORT: z.coerce.number().int().min(0).max(65535).default(3000),
+  TODO_STORE: z.enum(["memory", "file"]).default("memory"),
+  TODO_STORE_FILE: z.string().min(1).default("./data/todos.json"),
+  IDEMPOTENCY_TTL_MS: z.coerce.number().int().positive().default(24 * 60 * 60 * 1000),
+  RATE_LIMIT_WINDOW_MS: z.coerce.number().int().positive().default(60_000),
+  RATE_LIMIT_MAX: z.coerce.number().int().positive().default(100),
+  RATE_LIMIT_CREATE_MAX: z.coerce.number().int().positive().default(20),
+  CHANGE_FEED_BUFFER_SIZE: z.coerce.number().int().positive().default(1000),
+  CHANGE_FEED_HEARTBEAT_MS: z.coerce.number().int().positive().default(15_000),
+  SHUTDOWN_TIMEOUT_MS: z.coerce.number().int().positive().default(10_000),
+  JWT_SECRET: z.string().min(32, "Use at least 32 characters").optional(),
+});
+
+export type TodoServerConfig = z.infer<typeof envSchema>;
+
+export function loadConfig(env: NodeJS.ProcessEnv): TodoServerConfig {
+  const result = envSchema.safeParse(env);
+
+  if (!result.success) {
+    const problems = Object.entries(result.error.flatten().fieldErrors)
+      .map(([key, messages]) => `  ${key}: ${messages?.join(", ")}`)
+      .join("\n");
+    throw new Error(`Invalid environment:\n${problems}`);
+  }
+
+  return result.data;
+}
@@ -0,0 +1,72 @@
+// --- Docs Page ---
+// A self-contained HTML page (no CDN assets) that fetches /openapi.json and
+// lists each operation with its parameters, request body and responses.
+
+export const docsPageHtml = `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Todo API</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #222; }
+    details { border: 1px solid #ddd; border-radius: 6px; margin: 0.5rem 0; padding: 0.5rem 1rem; }
+    summary { cursor: pointer; font-family: ui-monospace, monospace; }
+    .method { display: inline-block; width: 4.5rem; font-weight: bold; text-transform: uppercase; }
+    .get { color: #1a7f37; } .post { color: #0969da; } .patch { color: #9a6700; } .delete { color: #cf222e; }
+    pre { background: #f6f8fa; padding: 0.75rem; overflow-x: auto; font-size: 0.85rem; }
+    table { border-collapse: collapse; } td, th { text-align: left; padding: 0.2rem 0.75rem 0.2rem 0; }
+  </style>
+</head>
+<body>
+  <h1 id="title">Todo API</h1>
+  <p id="description"></p>
+  <p><a href="/openapi.json">openapi.json</a></p>
+  <div id="operations">Loading…</div>
+  <script>
+    const el = (tag, props = {}, ...children) => {
+      const node = Object.assign(document.createElement(tag), props);
+      node.append(...children);
+      return node;
+    };
+    const json = (value) => el("pre", { textContent: JSON.stringify(value, null, 2) });
+
+    fetch("/openapi.json")
+      .then((res) => res.json())
+      .then((spec) => {
+        document.getElementById("title").textContent = spec.info.title + " " + spec.info.version;
+        document.getElementById("description").textContent = spec.info.description ?? "";
+        const container = document.getElementById("operations");
+        container.replaceChildren();
+
+        for (const [path, operations] of Object.entries(spec.paths)) {
+          for (const [method, op] of Object.entries(operations)) {
+            const section = el("details", {},
+              el("summary", {}, el("span", { className: "method " + method, textContent: method }), path + " — " + op.summary));
+
+            if (op.parameters) {
+              const rows = op.parameters.map((p) =>
+                el("tr", {}, el("td", { textContent: p.name }), el("td", { textContent: p.in }),
+                  el("td", { textContent: p.required ? "required" : "" }), el("td", { textContent: p.description ?? "" })));
+              section.append(el("h4", { textContent: "Parameters" }), el("table", {}, ...rows));
+            }
+            if (op.requestBody) {
+              section.append(el("h4", { textContent: "Request body" }), json(op.requestBody.content["application/json"].schema));
+            }
+            section.append(el("h4", { textContent: "Responses" }));
+            for (const [status, response] of Object.entries(op.responses)) {
+              section.append(el("p", { textContent: status + " — " + response.description }));
+              for (const [type, media] of Object.entries(response.content ?? {})) {
+                section.append(el("p", { textContent: type }), json(media.schema));
+              }
+            }
+            container.append(section);
+          }
+        }
+      })
+      .catch((error) => {
+        document.getElementById("operations").textContent = "Failed to load /openapi.json: " + error;
+      });
+  </script>
+</body>
+</html>
+`;
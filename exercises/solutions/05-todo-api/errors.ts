@@ -0,0 +1,129 @@
+// --- Errors ---
+// Handlers throw these instead of writing error responses themselves; the
+// error middleware turns every failure into the same envelope:
+//   { error: { code, message, details?, requestId? } }
+
+import { ZodError, ZodType, ZodTypeDef } from "zod";
+
+export abstract class AppError extends Error {
+  abstract readonly status: number;
+  abstract readonly code: string;
+
+  constructor(
+    message: string,
+    public readonly details?: unknown,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+// No bearer token, or one that is malformed, badly signed or expired.
+export class UnauthorizedError extends AppError {
+  readonly status = 401;
+  readonly code = "UNAUTHORIZED";
+}
+
+// The caller is known but isn't allowed to touch this resource.
+export class ForbiddenError extends AppError {
+  readonly status = 403;
+  readonly code = "FORBIDDEN";
+}
+
+export class NotFoundError extends AppError {
+  readonly status = 404;
+  readonly code = "NOT_FOUND";
+}
+
+export class ValidationError extends AppError {
+  readonly status: number = 422;
+  readonly code: string = "VALIDATION_ERROR";
+
+  // Groups issue messages by their dotted path, e.g. { "title": [...] } or,
+  // for nested payloads, { "operations.2.data.title": [...] }.
+  static fromZod(error: ZodError): ValidationError {
+    const details: Record<string, string[]> = {};
+    for (const issue of error.issues) {
+      const key = issue.path.length > 0 ? issue.path.join(".") : "_root";
+      (details[key] ??= []).push(issue.message);
+    }
+    return new ValidationError("Request validation failed", details, { cause: error });
+  }
+}
+
+// express.json() rejects bodies that aren't valid JSON before any handler runs.
+export class MalformedJsonError extends ValidationError {
+  override readonly status = 400;
+  override readonly code = "MALFORMED_JSON";
+}
+
+export class ConflictError extends AppError {
+  readonly status = 409;
+  readonly code = "CONFLICT";
+}
+
+// An If-Match header named a version that is no longer current.
+export class PreconditionFailedError extends AppError {
+  readonly status = 412;
+  readonly code = "PRECONDITION_FAILED";
+}
+
+export class RateLimitedError extends AppError {
+  readonly status = 429;
+  readonly code = "RATE_LIMITED";
+}
+
+export class InternalError extends AppError {
+  readonly status = 500;
+  readonly code = "INTERNAL_ERROR";
+}
+
+export interface ErrorResponseBody {
+  error: {
+    code: string;
+    message: string;
+    details?: unknown;
+    requestId?: string;
+  };
+}
+
+function isBodyParseError(err: unknown): boolean {
+  return err instanceof SyntaxError && (err as { type?: unknown }).type === "entity.parse.failed";
+}
+
+// Maps any thrown value to an AppError. Unknown errors become a generic 500
+// so internal messages and stack traces never reach the client.
+export function toAppError(err: unknown): AppError {
+  if (err instanceof AppError) {
+    return err;
+  }
+  if (isBodyParseError(err)) {
+    return new MalformedJsonError("Request body is not valid JSON", undefined, { cause: err });
+  }
+  if (err instanceof ZodError) {
+    return ValidationError.fromZod(err);
+  }
+  return new InternalError("Internal server error", undefined, { cause: err });
+}
+
+export function formatError(error: AppError, requestId: string | undefined): ErrorResponseBody {
+  return {
+    error: {
+      code: error.code,
+      message: error.message,
+      details: error.details,
+      requestId,
+    },
+  };
+}
+
+// Throws a ValidationError carrying the field errors instead of returning
+// a result, so handlers can stay on the happy path.
+export function parseOrThrow<Output, Input>(schema: ZodType<Output, ZodTypeDef, Input>, data: unknown): Output {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw ValidationError.fromZod(result.error);
+  }
+  return result.data;
+}
@@ -0,0 +1,29 @@
+// --- ETags ---
+// A todo's ETag is its version, so any write changes it. Clients send it back
+// in If-Match to make PATCH/DELETE conditional ("only if nobody changed it
+// since I read it") and in If-None-Match to revalidate a cached GET.
+
+import type { Todo } from "./todo";
+
+export function todoEtag(todo: Todo): string {
+  return `"${todo.version}"`;
+}
+
+// Splits `"1", W/"2"` into its entity tags. `*` is returned as-is.
+function parseEtagList(header: string): string[] {
+  return header
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0);
+}
+
+// If-Match uses strong comparison: weak tags never match.
+export function ifMatchSatisfied(header: string, etag: string): boolean {
+  return parseEtagList(header).some((tag) => tag === "*" || tag === etag);
+}
+
+// If-None-Match uses weak comparison: W/"1" and "1" are equivalent.
+export function ifNoneMatchSatisfied(header: string, etag: string): boolean {
+  const opaque = (tag: string) => tag.replace(/^W\//, "");
+  return !parseEtagList(header).some((tag) => tag === "*" || opaque(tag) === opaque(etag));
+}
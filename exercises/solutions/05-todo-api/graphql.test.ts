@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { printSchema } from "graphql";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createSequentialIdGenerator, createTodoApp } from "./app";
+import { signToken } from "./auth";
+import { todoGraphqlSchema } from "./graphql";
+import { createTodoEventBus } from "./todo-events";
+import { InMemoryTodoRepository } from "./todo-repository";
+
+let server: Server;
+let baseUrl: string;
+let repository: InMemoryTodoRepository;
+let events: ReturnType<typeof createTodoEventBus>;
+
+const secret = "graphql-test-secret-0123456789ab";
+const now = new Date("2026-01-01T00:00:00.000Z");
+const tokenFor = (userId: string) => signToken({ userId, role: "user" }, { secret, now, expiresInSeconds: 3600 });
+
+beforeEach(async () => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+
+  repository = new InMemoryTodoRepository();
+  events = createTodoEventBus();
+  const app = createTodoApp({
+    repository,
+    events,
+    auth: { secret },
+    clock: () => now,
+    generateId: createSequentialIdGenerator(),
+  });
+  server = app.listen(0);
+  await new Promise<void>((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  await new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve())));
+  vi.restoreAllMocks();
+});
+
+async function graphql(query: string, variables?: Record<string, unknown>, userId = "alice") {
+  const res = await fetch(`${baseUrl}/graphql`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${tokenFor(userId)}` },
+    body: JSON.stringify({ query, variables }),
+  });
+  return { status: res.status, body: await res.json() };
+}
+
+const createMutation = `
+  mutation ($input: CreateTodoInput!) {
+    createTodo(input: $input) { id title priority tags dueDate createdAt version }
+  }
+`;
+
+async function createTodo(input: Record<string, unknown>): Promise<{ id: string }> {
+  const { body } = await graphql(createMutation, { input });
+  expect(body.errors).toBeUndefined();
+  return body.data.createTodo;
+}
+
+describe("GraphQL", () => {
+  it("matches the committed schema.graphql", async () => {
+    await expect(printSchema(todoGraphqlSchema) + "\n").toMatchFileSnapshot("./schema.graphql");
+  });
+
+  it("creates, reads, updates and deletes a todo through the shared service", async () => {
+    const published: string[] = [];
+    events.on("todo.created", (todo) => published.push(`created ${todo.id}`));
+    events.on("todo.deleted", (todo) => published.push(`deleted ${todo.id}`));
+
+    const { body: created } = await graphql(createMutation, {
+      input: { title: "File taxes", priority: "HIGH", tags: ["Home", "home"], dueDate: "2026-04-15" },
+    });
+    expect(created.data.createTodo).toEqual({
+      id: "1",
+      title: "File taxes",
+      priority: "HIGH",
+      tags: ["home"],
+      dueDate: "2026-04-15T00:00:00.000Z",
+      createdAt: "2026-01-01T00:00:00.000Z",
+      version: 1,
+    });
+
+    const { body: updated } = await graphql(
+      `mutation { updateTodo(id: "1", input: { completed: true, dueDate: null }, ifMatch: "\\"1\\"") { completed dueDate version } }`,
+    );
+    expect(updated.data.updateTodo).toEqual({ completed: true, dueDate: null, version: 2 });
+
+    // The REST API sees the same store.
+    const rest = await fetch(`${baseUrl}/todos/1`, { headers: { Authorization: `Bearer ${tokenFor("alice")}` } });
+    expect(await rest.json()).toMatchObject({ completed: true, version: 2 });
+
+    const { body: deleted } = await graphql(`mutation { deleteTodo(id: "1") { id title } }`);
+    expect(deleted.data.deleteTodo).toEqual({ id: "1", title: "File taxes" });
+
+    const { body: missing } = await graphql(`{ todo(id: "1") { id } }`);
+    expect(missing.data.todo).toBeNull();
+    expect(published).toEqual(["created 1", "deleted 1"]);
+  });
+
+  it("pages through todos with filters and cursors", async () => {
+    for (const title of ["b", "a", "c", "d"]) {
+      await createTodo({ title, tags: title === "d" ? [] : ["work"] });
+    }
+
+    const query = `
+      query ($after: String) {
+        todos(tags: ["work"], sort: TITLE, first: 2, after: $after) {
+          edges { node { title } }
+          pageInfo { hasNextPage endCursor }
+          totalCount
+        }
+      }
+    `;
+
+    const first = (await graphql(query)).body.data.todos;
+    expect(first.edges.map((e: { node: { title: string } }) => e.node.title)).toEqual(["a", "b"]);
+    expect(first.pageInfo.hasNextPage).toBe(true);
+    expect(first.totalCount).toBe(3);
+
+    const second = (await graphql(query, { after: first.pageInfo.endCursor })).body.data.todos;
+    expect(second.edges.map((e: { node: { title: string } }) => e.node.title)).toEqual(["c"]);
+    expect(second.pageInfo.hasNextPage).toBe(false);
+  });
+
+  it("batches todo(id) lookups into one store call per tick", async () => {
+    await createTodo({ title: "a" });
+    await createTodo({ title: "b" });
+    const findByIds = vi.spyOn(repository, "findByIds");
+    const findById = vi.spyOn(repository, "findById");
+
+    const { body } = await graphql(`{
+      a: todo(id: "1") { title }
+      b: todo(id: "2") { title }
+      again: todo(id: "1") { title }
+      missing: todo(id: "404") { title }
+    }`);
+
+    expect(body.data).toEqual({ a: { title: "a" }, b: { title: "b" }, again: { title: "a" }, missing: null });
+    expect(findByIds).toHaveBeenCalledTimes(1);
+    expect(findByIds).toHaveBeenCalledWith(["1", "2", "404"]);
+    expect(findById).not.toHaveBeenCalled();
+  });
+
+  it("acts as the authenticated caller", async () => {
+    await createTodo({ title: "Alice's" });
+
+    const { body: bobs } = await graphql(`{ todos { totalCount } mine: todo(id: "1") { id } }`, undefined, "bob");
+    expect(bobs.data).toEqual({ todos: { totalCount: 0 }, mine: null });
+    expect(bobs.errors).toMatchObject([{ path: ["mine"], extensions: { code: "FORBIDDEN" } }]);
+
+    const { body: created } = await graphql(`mutation { createTodo(input: { title: "Bob's" }) { ownerId } }`, undefined, "bob");
+    expect(created.data.createTodo).toEqual({ ownerId: "bob" });
+  });
+
+  it("reports REST error codes in extensions", async () => {
+    const { status, body: invalid } = await graphql(createMutation, { input: { title: "" } });
+    expect(status).toBe(200);
+    expect(invalid.data).toBeNull();
+    expect(invalid.errors[0]).toMatchObject({
+      path: ["createTodo"],
+      extensions: { code: "VALIDATION_ERROR", details: { title: ["Title is required"] } },
+    });
+
+    await createTodo({ title: "a" });
+    const { body: stale } = await graphql(`mutation { updateTodo(id: "1", input: { title: "b" }, ifMatch: "\\"9\\"") { id } }`);
+    expect(stale.errors[0].extensions).toMatchObject({ code: "PRECONDITION_FAILED", details: { currentVersion: 1 } });
+
+    const { body: notFound } = await graphql(`mutation { deleteTodo(id: "404") { id } }`);
+    expect(notFound.errors[0].extensions.code).toBe("NOT_FOUND");
+
+    const { body: badLimit } = await graphql(`{ todos(first: 500) { totalCount } }`);
+    expect(badLimit.errors[0].extensions).toMatchObject({ code: "VALIDATION_ERROR", details: { limit: expect.any(Array) } });
+  });
+
+  it("answers 400 for queries that can't run", async () => {
+    const syntax = await graphql(`{ todos {`);
+    expect(syntax.status).toBe(400);
+    expect(syntax.body.errors[0].extensions.code).toBe("GRAPHQL_VALIDATION_FAILED");
+
+    const unknownField = await graphql(`{ todos { nope } }`);
+    expect(unknownField.status).toBe(400);
+
+    const badVariables = await graphql(createMutation, { input: { title: 42 } });
+    expect(badVariables.status).toBe(400);
+    expect(badVariables.body.data).toBeUndefined();
+  });
+});
@@ -0,0 +1,338 @@
+// --- GraphQL ---
+// POST /graphql exposes the same todos as the REST routes. Resolvers stay
+// thin: arguments go through the Zod schemas from ./todo and the work is done
+// by the TodoService, so both transports validate, store and publish events
+// identically. Failures keep the REST error codes in `extensions.code`, and
+// the caller authenticated by POST /graphql is the actor for every resolver.
+//
+// The printed schema is committed as schema.graphql; graphql.test.ts fails
+// when it changes, so schema changes show up in review like migrations do.
+
+import {
+  execute,
+  GraphQLBoolean,
+  GraphQLEnumType,
+  GraphQLError,
+  GraphQLFormattedError,
+  GraphQLID,
+  GraphQLInputObjectType,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLNullableType,
+  GraphQLObjectType,
+  GraphQLScalarType,
+  GraphQLSchema,
+  GraphQLString,
+  parse,
+  validate,
+} from "graphql";
+import { z } from "zod";
+import type { Principal } from "./auth";
+import { BatchLoader } from "./batch-loader";
+import { parseOrThrow, toAppError } from "./errors";
+import { encodeCursor, sortValue } from "./pagination";
+import { log } from "./request-context";
+import { createTodoSchema, listTodosQuerySchema, Todo, todoPriorities, updateTodoSchema } from "./todo";
+import type { TodoService } from "./todo-service";
+
+export interface GraphqlContext {
+  service: TodoService;
+  actor: Principal;
+  loaders: {
+    todoById: BatchLoader<string, Todo | undefined>;
+  };
+  // Called before every createTodo; rejects when the caller's create budget
+  // is spent.
+  chargeCreate: () => Promise<void>;
+}
+
+// --- Schema ---
+
+const DateTime = new GraphQLScalarType<Date, string>({
+  name: "DateTime",
+  description: "ISO 8601 timestamp in UTC",
+  serialize: (value) => (value as Date).toISOString(),
+});
+
+const nonNull = <T extends GraphQLNullableType>(type: T) => new GraphQLNonNull(type);
+const listOf = <T extends GraphQLNullableType>(type: T) => new GraphQLList(new GraphQLNonNull(type));
+
+const Priority = new GraphQLEnumType({
+  name: "Priority",
+  values: Object.fromEntries(todoPriorities.map((priority) => [priority.toUpperCase(), { value: priority }])),
+});
+
+const TodoSort = new GraphQLEnumType({
+  name: "TodoSort",
+  values: { CREATED_AT: { value: "createdAt" }, TITLE: { value: "title" } },
+});
+
+const SortOrder = new GraphQLEnumType({
+  name: "SortOrder",
+  values: { ASC: { value: "asc" }, DESC: { value: "desc" } },
+});
+
+const TodoType = new GraphQLObjectType<Todo, GraphqlContext>({
+  name: "Todo",
+  fields: {
+    id: { type: nonNull(GraphQLID) },
+    ownerId: { type: nonNull(GraphQLID) },
+    title: { type: nonNull(GraphQLString) },
+    description: { type: GraphQLString },
+    completed: { type: nonNull(GraphQLBoolean) },
+    priority: { type: nonNull(Priority) },
+    tags: { type: nonNull(listOf(GraphQLString)) },
+    dueDate: { type: DateTime },
+    createdAt: { type: nonNull(DateTime) },
+    updatedAt: { type: nonNull(DateTime) },
+    version: { type: nonNull(GraphQLInt), description: 'Bumped on every write; send it back quoted ("3") as ifMatch' },
+  },
+});
+
+const TodoEdge = new GraphQLObjectType({
+  name: "TodoEdge",
+  fields: {
+    cursor: { type: nonNull(GraphQLString) },
+    node: { type: nonNull(TodoType) },
+  },
+});
+
+const PageInfo = new GraphQLObjectType({
+  name: "PageInfo",
+  fields: {
+    hasNextPage: { type: nonNull(GraphQLBoolean) },
+    endCursor: { type: GraphQLString },
+  },
+});
+
+const TodoConnection = new GraphQLObjectType({
+  name: "TodoConnection",
+  fields: {
+    edges: { type: nonNull(listOf(TodoEdge)) },
+    pageInfo: { type: nonNull(PageInfo) },
+    totalCount: { type: nonNull(GraphQLInt) },
+  },
+});
+
+// Dates are strings here rather than DateTime so that Zod can accept a plain
+// date as well as a timestamp, exactly like the REST body.
+const dueDateInput = { type: GraphQLString, description: "ISO 8601 date or date-time" };
+
+const CreateTodoInput = new GraphQLInputObjectType({
+  name: "CreateTodoInput",
+  fields: {
+    title: { type: nonNull(GraphQLString) },
+    description: { type: GraphQLString },
+    priority: { type: Priority },
+    tags: { type: listOf(GraphQLString) },
+    dueDate: dueDateInput,
+  },
+});
+
+const UpdateTodoInput = new GraphQLInputObjectType({
+  name: "UpdateTodoInput",
+  description: "Omitted fields are kept; null clears description and dueDate",
+  fields: {
+    title: { type: GraphQLString },
+    description: { type: GraphQLString },
+    completed: { type: GraphQLBoolean },
+    priority: { type: Priority },
+    tags: { type: listOf(GraphQLString) },
+    dueDate: dueDateInput,
+  },
+});
+
+interface TodosArgs {
+  completed?: boolean | null;
+  tags?: string[] | null;
+  priorities?: string[] | null;
+  overdue?: boolean | null;
+  q?: string | null;
+  sort: string;
+  order: string;
+  first: number;
+  after?: string | null;
+}
+
+// Reuses the REST query schema so limits, search rules and cursor checks
+// can't diverge; booleans are spelled the way a query string carries them.
+function toListQuery(args: TodosArgs) {
+  const spell = (value: boolean | null | undefined) => (value == null ? undefined : String(value));
+  return parseOrThrow(listTodosQuerySchema, {
+    completed: spell(args.completed),
+    tag: args.tags ?? undefined,
+    priority: args.priorities ?? undefined,
+    overdue: spell(args.overdue),
+    q: args.q ?? undefined,
+    sort: args.sort,
+    order: args.order,
+    limit: args.first,
+    cursor: args.after ?? undefined,
+  });
+}
+
+const Query = new GraphQLObjectType<unknown, GraphqlContext>({
+  name: "Query",
+  fields: {
+    todos: {
+      type: nonNull(TodoConnection),
+      args: {
+        completed: { type: GraphQLBoolean },
+        tags: { type: listOf(GraphQLString), description: "Every listed tag must be present" },
+        priorities: { type: listOf(Priority), description: "Any of the listed priorities matches" },
+        overdue: { type: GraphQLBoolean },
+        q: { type: GraphQLString, description: "Search title and description; all words must match" },
+        sort: { type: nonNull(TodoSort), defaultValue: "createdAt" },
+        order: { type: nonNull(SortOrder), defaultValue: "asc" },
+        first: { type: nonNull(GraphQLInt), defaultValue: 20 },
+        after: { type: GraphQLString },
+      },
+      resolve: async (_parent, args: TodosArgs, { service, actor }) => {
+        const query = toListQuery(args);
+        const page = await service.list(actor, query);
+        const edges = page.items.map((todo) => ({
+          cursor: encodeCursor({ sort: query.sort, order: query.order, value: sortValue(todo, query.sort), id: todo.id }),
+          node: todo,
+        }));
+        return {
+          edges,
+          pageInfo: { hasNextPage: page.nextCursor !== null, endCursor: edges.at(-1)?.cursor ?? null },
+          totalCount: page.total,
+        };
+      },
+    },
+    todo: {
+      type: TodoType,
+      args: { id: { type: nonNull(GraphQLID) } },
+      resolve: (_parent, args: { id: string }, { loaders }) => loaders.todoById.load(args.id).then((todo) => todo ?? null),
+    },
+  },
+});
+
+const Mutation = new GraphQLObjectType<unknown, GraphqlContext>({
+  name: "Mutation",
+  fields: {
+    createTodo: {
+      type: nonNull(TodoType),
+      args: { input: { type: nonNull(CreateTodoInput) } },
+      resolve: async (_parent, args: { input: unknown }, { service, actor, chargeCreate }) => {
+        const input = parseOrThrow(createTodoSchema, args.input);
+        await chargeCreate();
+        return service.create(actor, input);
+      },
+    },
+    updateTodo: {
+      type: nonNull(TodoType),
+      args: {
+        id: { type: nonNull(GraphQLID) },
+        input: { type: nonNull(UpdateTodoInput) },
+        ifMatch: { type: GraphQLString, description: 'The ETag you last saw, e.g. "3"' },
+      },
+      resolve: (_parent, args: { id: string; input: unknown; ifMatch?: string | null }, { service, actor }) =>
+        service.update(actor, args.id, parseOrThrow(updateTodoSchema, args.input), args.ifMatch ?? undefined),
+    },
+    deleteTodo: {
+      type: nonNull(TodoType),
+      description: "Returns the todo as it was before the delete",
+      args: {
+        id: { type: nonNull(GraphQLID) },
+        ifMatch: { type: GraphQLString },
+      },
+      resolve: (_parent, args: { id: string; ifMatch?: string | null }, { service, actor }) =>
+        service.delete(actor, args.id, args.ifMatch ?? undefined),
+    },
+  },
+});
+
+export const todoGraphqlSchema = new GraphQLSchema({ query: Query, mutation: Mutation });
+
+// --- Execution ---
+
+export const graphqlRequestSchema = z.object({
+  query: z.string().min(1, "Query is required"),
+  variables: z.record(z.unknown()).nullish(),
+  operationName: z.string().nullish(),
+});
+
+export type GraphqlRequest = z.infer<typeof graphqlRequestSchema>;
+
+export interface GraphqlResponse {
+  status: number;
+  body: { data?: unknown; errors?: GraphQLFormattedError[] };
+}
+
+// Errors thrown by resolvers are mapped like the REST error middleware does;
+// anything without an original error is a problem with the query itself.
+function formatGraphqlError(error: GraphQLError, requestId: string | undefined): GraphQLFormattedError {
+  const { message, locations, path } = error.toJSON();
+  const original = error.originalError;
+
+  if (original === undefined || original instanceof GraphQLError) {
+    return { message, locations, path, extensions: { code: "GRAPHQL_VALIDATION_FAILED", requestId } };
+  }
+
+  const appError = toAppError(original);
+  if (appError.status >= 500) {
+    log("error", "graphql.resolver_error", {
+      path: path?.join("."),
+      message: original.message,
+      stack: original.stack,
+    });
+  }
+
+  return {
+    message: appError.message,
+    locations,
+    path,
+    extensions: { code: appError.code, details: appError.details, requestId },
+  };
+}
+
+// Requests that can't run at all (syntax, unknown fields, bad variables)
+// answer 400 without `data`; once execution starts the answer is 200 with
+// whatever `data` and `errors` the resolvers produced.
+export async function executeGraphql(
+  service: TodoService,
+  actor: Principal,
+  request: GraphqlRequest,
+  requestId: string | undefined,
+  chargeCreate: () => Promise<void> = async () => {},
+): Promise<GraphqlResponse> {
+  const formatErrors = (errors: readonly GraphQLError[]) => errors.map((e) => formatGraphqlError(e, requestId));
+
+  let document;
+  try {
+    document = parse(request.query);
+  } catch (err) {
+    if (err instanceof GraphQLError) {
+      return { status: 400, body: { errors: formatErrors([err]) } };
+    }
+    throw err;
+  }
+
+  const validationErrors = validate(todoGraphqlSchema, document);
+  if (validationErrors.length > 0) {
+    return { status: 400, body: { errors: formatErrors(validationErrors) } };
+  }
+
+  const contextValue: GraphqlContext = {
+    service,
+    actor,
+    loaders: { todoById: new BatchLoader<string, Todo | undefined>((ids) => service.findByIds(actor, ids)) },
+    chargeCreate,
+  };
+
+  const result = await execute({
+    schema: todoGraphqlSchema,
+    document,
+    contextValue,
+    variableValues: request.variables,
+    operationName: request.operationName,
+  });
+
+  return {
+    status: result.data === undefined ? 400 : 200,
+    body: { data: result.data, ...(result.errors && { errors: formatErrors(result.errors) }) },
+  };
+}
@@ -0,0 +1,43 @@
+// --- HTTP Metrics ---
+// Request counts and latency per route and status: the traffic, error and
+// latency panels of a service dashboard. Routes are labelled by their
+// template ("/todos/:id"), never the raw URL, to keep cardinality bounded;
+// requests that never reached a route (404s, rate-limited requests) share
+// the "unmatched" label.
+
+import type { NextFunction, Request, Response } from "express";
+import type { MetricsRegistry } from "../shared/metrics";
+
+function routeLabel(req: Request): string {
+  const route = req.route as { path?: unknown } | undefined;
+  return typeof route?.path === "string" ? `${req.baseUrl}${route.path}` : "unmatched";
+}
+
+export function httpMetrics(registry: MetricsRegistry) {
+  const labelNames = ["method", "route", "status_code"] as const;
+  const requests = registry.counter({
+    name: "http_requests_total",
+    help: "HTTP requests handled",
+    labelNames,
+  });
+  // In seconds, Prometheus's base unit for time, which is what dashboards
+  // and alerting rules written for other services expect.
+  const duration = registry.histogram({
+    name: "http_request_duration_seconds",
+    help: "HTTP request latency in seconds",
+    labelNames,
+    buckets: [0.01, 0.025, 0.05, 0.1, 0.2, 0.4, 0.8, 1.6],
+  });
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const startedAt = performance.now();
+
+    res.on("finish", () => {
+      const labels = { method: req.method, route: routeLabel(req), status_code: res.statusCode };
+      requests.inc(labels);
+      duration.observe(labels, (performance.now() - startedAt) / 1000);
+    });
+
+    next();
+  };
+}
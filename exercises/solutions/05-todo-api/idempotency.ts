@@ -0,0 +1,174 @@
+// --- Idempotency Keys ---
+// Clients retry POSTs on timeouts. With an `Idempotency-Key` header the first
+// request's response is stored alongside a fingerprint of its body, and:
+//   - a retry with the same key and body gets the stored response replayed
+//   - the same key with a different body is rejected with 409
+//   - a retry while the first request is still running is rejected with 409
+// Only successful responses (2xx, unless `succeeded` says otherwise) are
+// stored; failures release the key so the client can simply try again.
+// Entries expire after `ttlMs`.
+
+import type { NextFunction, Request, Response } from "express";
+import { createHash } from "node:crypto";
+import { z } from "zod";
+import { ConflictError, ValidationError } from "./errors";
+
+export type IdempotencyEntry =
+  | { state: "in_progress"; fingerprint: string; expiresAt: number }
+  | { state: "completed"; fingerprint: string; expiresAt: number; status: number; body: unknown };
+
+// Async so a shared store can implement it. reserve() must be atomic: store
+// the entry only if the key has no live entry, and otherwise return that
+// entry (Redis: SET NX PX, then GET when it didn't set). Two concurrent
+// retries can then never both claim a key.
+export interface IdempotencyStore {
+  reserve(key: string, entry: IdempotencyEntry): Promise<IdempotencyEntry | undefined>;
+  set(key: string, entry: IdempotencyEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private entries = new Map<string, IdempotencyEntry>();
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  // No await between the check and the write, so this is atomic.
+  async reserve(key: string, entry: IdempotencyEntry): Promise<IdempotencyEntry | undefined> {
+    this.pruneExpired();
+    const existing = this.entries.get(key);
+    if (existing && existing.expiresAt > this.now()) {
+      return existing;
+    }
+    this.entries.set(key, entry);
+    return undefined;
+  }
+
+  async set(key: string, entry: IdempotencyEntry): Promise<void> {
+    this.pruneExpired();
+    this.entries.set(key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  // Maps iterate in insertion order and every key gets the same TTL, so the
+  // oldest entries are the first to expire: stop at the first live one.
+  private pruneExpired(): void {
+    const now = this.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt > now) {
+        break;
+      }
+      this.entries.delete(key);
+    }
+  }
+}
+
+export interface IdempotencyOptions {
+  store: IdempotencyStore;
+  ttlMs: number;
+  now: () => number;
+  // Who the key belongs to, so one caller's key never replays another
+  // caller's response. Typically the authenticated user id.
+  scope: (req: Request) => string;
+  // Whether a response is worth replaying. GraphQL, for one, answers 200
+  // with `errors` when a mutation failed.
+  succeeded?: (status: number, body: unknown) => boolean;
+}
+
+const idempotencyKeySchema = z.string().min(1).max(255);
+
+// JSON.stringify with sorted keys, so {"a":1,"b":2} and {"b":2,"a":1}
+// fingerprint the same.
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function fingerprint(req: Request): string {
+  return createHash("sha256")
+    .update(`${req.method} ${req.baseUrl}${req.path}\n${canonicalJson(req.body)}`)
+    .digest("hex");
+}
+
+export function idempotency(options: IdempotencyOptions) {
+  const { store, ttlMs, now, scope, succeeded = (status) => status >= 200 && status < 300 } = options;
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const header = req.get("Idempotency-Key");
+    if (header === undefined) {
+      next();
+      return;
+    }
+
+    (async () => {
+      const parsed = idempotencyKeySchema.safeParse(header);
+      if (!parsed.success) {
+        throw new ValidationError("Request validation failed", {
+          "Idempotency-Key": ["Must be between 1 and 255 characters"],
+        });
+      }
+
+      // Keys are scoped to the caller and the route, so one key can't collide
+      // across users or endpoints.
+      const key = `${scope(req)}:${req.method} ${req.baseUrl}${req.path}:${parsed.data}`;
+      const requestFingerprint = fingerprint(req);
+      const existing = await store.reserve(key, {
+        state: "in_progress",
+        fingerprint: requestFingerprint,
+        expiresAt: now() + ttlMs,
+      });
+
+      if (existing) {
+        if (existing.fingerprint !== requestFingerprint) {
+          throw new ConflictError("Idempotency-Key was already used with a different request body", {
+            idempotencyKey: parsed.data,
+          });
+        }
+        if (existing.state === "in_progress") {
+          throw new ConflictError("A request with this Idempotency-Key is still being processed", {
+            idempotencyKey: parsed.data,
+          });
+        }
+
+        res.setHeader("Idempotent-Replayed", "true");
+        res.status(existing.status).json(existing.body);
+        return;
+      }
+
+      let completed = false;
+      const originalJson = res.json.bind(res);
+      res.json = (body: unknown) => {
+        if (succeeded(res.statusCode, body)) {
+          completed = true;
+          void store.set(key, {
+            state: "completed",
+            fingerprint: requestFingerprint,
+            expiresAt: now() + ttlMs,
+            status: res.statusCode,
+            body,
+          });
+        }
+        return originalJson(body);
+      };
+
+      // Anything other than a stored success frees the key for a retry.
+      res.on("close", () => {
+        if (!completed) {
+          void store.delete(key);
+        }
+      });
+
+      next();
+    })().catch(next);
+  };
+}
@@ -0,0 +1,28 @@
+// --- Mint Token ---
+// Signs a bearer token with JWT_SECRET, for calling a server that was started
+// with the same secret:
+//   JWT_SECRET=... npx tsx exercises/solutions/05-todo-api/mint-token.ts alice
+//   JWT_SECRET=... npx tsx exercises/solutions/05-todo-api/mint-token.ts root admin
+// Tokens are valid for 24 hours.
+
+import { roles, signToken } from "./auth";
+import { loadConfig } from "./config";
+
+const [userId, role = "user"] = process.argv.slice(2);
+const { JWT_SECRET } = loadConfig(process.env);
+
+if (!userId || !roles.some((known) => known === role)) {
+  console.error(`Usage: mint-token.ts <userId> [${roles.join("|")}]`);
+  process.exit(1);
+}
+if (JWT_SECRET === undefined) {
+  console.error("JWT_SECRET is not set");
+  process.exit(1);
+}
+
+console.log(
+  signToken(
+    { userId, role: role as (typeof roles)[number] },
+    { secret: JWT_SECRET, now: new Date(), expiresInSeconds: 24 * 60 * 60 },
+  ),
+);
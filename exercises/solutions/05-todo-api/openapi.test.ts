@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Express } from "express";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { ZodTypeAny } from "zod";
+import { createSequentialIdGenerator, createTodoApp } from "./app";
+import { signToken } from "./auth";
+import { buildOpenApiDocument, todoApiOperations } from "./openapi";
+import { InMemoryTodoRepository } from "./todo-repository";
+
+// These tests keep the published spec honest: every Express route must be
+// documented (and vice versa), the committed openapi.json must match what the
+// schemas generate, and real responses must parse against the schemas the
+// spec promises for their status.
+
+let app: Express;
+let server: Server;
+let baseUrl: string;
+
+const secret = "openapi-test-secret-0123456789ab";
+const now = new Date("2026-01-01T00:00:00.000Z");
+
+beforeEach(async () => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+
+  app = createTodoApp({
+    repository: new InMemoryTodoRepository(),
+    auth: { secret },
+    clock: () => now,
+    generateId: createSequentialIdGenerator(),
+  });
+  server = app.listen(0);
+  await new Promise<void>((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  await new Promise<void>((resolve, reject) => server.close((err) => (err ? reject(err) : resolve())));
+  vi.restoreAllMocks();
+});
+
+// Routes that serve the spec itself aren't part of it.
+const undocumentedRoutes = new Set(["get /openapi.json", "get /docs"]);
+
+interface RouteLayer {
+  route?: { path: string; methods: Record<string, boolean> };
+}
+
+function expressRoutes(app: Express): string[] {
+  const stack = (app as unknown as { _router: { stack: RouteLayer[] } })._router.stack;
+  return stack
+    .flatMap(({ route }) =>
+      route ? Object.keys(route.methods).map((method) => `${method} ${route.path.replace(/:(\w+)/g, "{$1}")}`) : [],
+    )
+    .filter((route) => !undocumentedRoutes.has(route));
+}
+
+async function send(
+  method: string,
+  path: string,
+  body?: unknown,
+  userId = "alice",
+): Promise<{ status: number; json: unknown }> {
+  const token = signToken({ userId, role: "user" }, { secret, now, expiresInSeconds: 3600 });
+  const res = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await res.text();
+  return { status: res.status, json: text ? JSON.parse(text) : undefined };
+}
+
+function documentedSchema(method: string, path: string, status: number): ZodTypeAny | undefined {
+  const operation = todoApiOperations.find((op) => op.method === method && op.path === path);
+  expect(operation, `${method} ${path} is documented`).toBeDefined();
+  const response = operation!.responses[status];
+  expect(response, `${method} ${path} documents ${status}`).toBeDefined();
+  return response!.schema;
+}
+
+// Sends a request and checks the response against the documented schema.
+async function expectDocumented(
+  method: string,
+  specPath: string,
+  path: string,
+  body?: unknown,
+  userId?: string,
+): Promise<unknown> {
+  const res = await send(method, path, body, userId);
+  const schema = documentedSchema(method.toLowerCase(), specPath, res.status);
+  if (schema) {
+    expect(schema.safeParse(res.json).error?.issues).toBeUndefined();
+  }
+  return res.json;
+}
+
+describe("OpenAPI document", () => {
+  it("documents exactly the routes the app serves", () => {
+    const documented = todoApiOperations.map((op) => `${op.method} ${op.path}`);
+    expect(expressRoutes(app).sort()).toEqual(documented.sort());
+  });
+
+  it("matches the committed openapi.json", async () => {
+    await expect(JSON.stringify(buildOpenApiDocument(), null, 2) + "\n").toMatchFileSnapshot("./openapi.json");
+  });
+
+  it("is served at /openapi.json with a docs page at /docs", async () => {
+    const spec = await send("GET", "/openapi.json");
+    expect(spec.status).toBe(200);
+    expect(spec.json).toEqual(buildOpenApiDocument());
+
+    const docs = await fetch(`${baseUrl}/docs`);
+    expect(docs.headers.get("content-type")).toMatch(/text\/html/);
+    expect(await docs.text()).toContain("/openapi.json");
+  });
+
+  it("describes the real success and error responses", async () => {
+    await expectDocumented("GET", "/health", "/health");
+    await expectDocumented("GET", "/ready", "/ready");
+
+    const created = (await expectDocumented("POST", "/todos", "/todos", {
+      title: "Pay taxes",
+      dueDate: "2026-04-15",
+      tags: ["Home"],
+    })) as { id: string };
+    await expectDocumented("POST", "/todos", "/todos", { title: "" });
+    await expectDocumented("POST", "/todos", "/todos", "not an object");
+
+    await expectDocumented("GET", "/todos", "/todos?limit=1");
+    await expectDocumented("GET", "/todos", "/todos?limit=0");
+
+    await expectDocumented("GET", "/todos/{id}", `/todos/${created.id}`);
+    await expectDocumented("GET", "/todos/{id}", "/todos/missing");
+    await expectDocumented("GET", "/todos/{id}", `/todos/${created.id}`, undefined, "bob");
+    await expectDocumented("PATCH", "/todos/{id}", `/todos/${created.id}`, { completed: true, description: null });
+
+    await expectDocumented("POST", "/todos/bulk", "/todos/bulk", {
+      operations: [
+        { op: "create", data: { title: "Call mom" } },
+        { op: "update", id: created.id, data: { title: "Pay taxes today" } },
+      ],
+    });
+    await expectDocumented("POST", "/todos/bulk", "/todos/bulk", { operations: [{ op: "delete", id: "missing" }] });
+
+    await expectDocumented("DELETE", "/todos", "/todos?completed=true");
+    await expectDocumented("DELETE", "/todos", "/todos");
+    await expectDocumented("DELETE", "/todos/{id}", "/todos/2");
+  });
+});
@@ -0,0 +1,418 @@
+// --- OpenAPI ---
+// The published spec is generated from the same Zod schemas the handlers use
+// to validate input, plus a route table describing each operation. Response
+// schemas are written in Zod too, so tests can check real responses against
+// what the spec promises (see openapi.test.ts).
+
+import { z, ZodTypeAny } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { graphqlRequestSchema } from "./graphql";
+import {
+  bulkRequestSchema,
+  createTodoSchema,
+  deleteTodosQuerySchema,
+  listTodosQuerySchema,
+  todoPriorities,
+  updateTodoSchema,
+} from "./todo";
+
+// --- Response schemas (as serialized to JSON: dates become strings) ---
+
+export const todoResponseSchema = z.object({
+  id: z.string(),
+  ownerId: z.string(),
+  title: z.string(),
+  description: z.string().nullable(),
+  completed: z.boolean(),
+  priority: z.enum(todoPriorities),
+  tags: z.array(z.string()),
+  dueDate: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  version: z.number().int().positive(),
+});
+
+export const todoPageResponseSchema = z.object({
+  items: z.array(todoResponseSchema),
+  nextCursor: z.string().nullable(),
+  total: z.number().int().min(0),
+});
+
+export const bulkResponseSchema = z.object({
+  results: z.array(
+    z.discriminatedUnion("op", [
+      z.object({ op: z.literal("create"), status: z.literal(201), todo: todoResponseSchema }),
+      z.object({ op: z.literal("update"), status: z.literal(200), todo: todoResponseSchema }),
+      z.object({ op: z.literal("delete"), status: z.literal(204), id: z.string() }),
+    ]),
+  ),
+});
+
+export const deleteCompletedResponseSchema = z.object({
+  deleted: z.number().int().min(0),
+  ids: z.array(z.string()),
+});
+
+export const graphqlResponseSchema = z.object({
+  data: z.record(z.unknown()).nullable().optional(),
+  errors: z
+    .array(
+      z.object({
+        message: z.string(),
+        locations: z.array(z.object({ line: z.number(), column: z.number() })).optional(),
+        path: z.array(z.union([z.string(), z.number()])).optional(),
+        extensions: z.object({ code: z.string(), details: z.unknown().optional(), requestId: z.string().optional() }),
+      }),
+    )
+    .optional(),
+});
+
+export const streamTokenResponseSchema = z.object({
+  token: z.string(),
+  expiresInSeconds: z.number().int().positive(),
+});
+
+export const healthResponseSchema = z.object({ status: z.literal("ok") });
+
+export const readinessResponseSchema = z.object({
+  status: z.enum(["ready", "not_ready"]),
+  checks: z.object({
+    store: z.enum(["ok", "failing"]),
+    server: z.enum(["ok", "shutting_down"]),
+  }),
+});
+
+export const errorResponseSchema = z.object({
+  error: z.object({
+    code: z.string(),
+    message: z.string(),
+    details: z.unknown().optional(),
+    requestId: z.string().optional(),
+  }),
+});
+
+// --- Route table ---
+
+export type HttpMethod = "get" | "post" | "patch" | "delete";
+
+export interface ApiResponseSpec {
+  description: string;
+  schema?: ZodTypeAny;
+  // Set for non-JSON responses; the body is then documented as a string.
+  contentType?: string;
+}
+
+export interface ApiOperation {
+  method: HttpMethod;
+  // OpenAPI-style path, e.g. /todos/{id}
+  path: string;
+  operationId: string;
+  summary: string;
+  query?: ZodTypeAny;
+  headers?: Array<{ name: string; description: string }>;
+  body?: ZodTypeAny;
+  // Both default to true.
+  rateLimited?: boolean;
+  authenticated?: boolean;
+  responses: Record<number, ApiResponseSpec>;
+}
+
+const errorResponse = (description: string): ApiResponseSpec => ({ description, schema: errorResponseSchema });
+
+// Every route except the probes and metrics can be rate limited.
+const rateLimitedResponses: Record<number, ApiResponseSpec> = {
+  429: errorResponse("Rate limit exceeded; see Retry-After"),
+};
+
+// Those same routes are the only ones that don't need a bearer token.
+const authenticatedResponses: Record<number, ApiResponseSpec> = {
+  401: errorResponse("Missing, invalid or expired bearer token"),
+};
+
+const forbiddenResponse = errorResponse("The todo belongs to another user");
+
+export const todoApiOperations: ApiOperation[] = [
+  {
+    method: "get",
+    path: "/health",
+    operationId: "health",
+    summary: "Liveness probe",
+    rateLimited: false,
+    authenticated: false,
+    responses: {
+      200: { description: "The process is up", schema: healthResponseSchema },
+    },
+  },
+  {
+    method: "get",
+    path: "/ready",
+    operationId: "ready",
+    summary: "Readiness probe: the store is healthy and the server isn't shutting down",
+    rateLimited: false,
+    authenticated: false,
+    responses: {
+      200: { description: "Ready for traffic", schema: readinessResponseSchema },
+      503: { description: "Not ready; checks says why", schema: readinessResponseSchema },
+    },
+  },
+  {
+    method: "get",
+    path: "/metrics",
+    operationId: "metrics",
+    summary: "Prometheus metrics: HTTP traffic and latency by route, plus any registered gauges",
+    rateLimited: false,
+    authenticated: false,
+    responses: {
+      200: { description: "Prometheus text exposition format 0.0.4", contentType: "text/plain" },
+    },
+  },
+  {
+    method: "get",
+    path: "/todos",
+    operationId: "listTodos",
+    summary: "List the caller's todos (every user's for an admin) with filters, sorting and pagination",
+    query: listTodosQuerySchema,
+    responses: {
+      200: { description: "A page of todos", schema: todoPageResponseSchema },
+      422: errorResponse("Invalid query parameters or cursor"),
+    },
+  },
+  {
+    method: "post",
+    path: "/todos",
+    operationId: "createTodo",
+    summary: "Create a todo",
+    headers: [{ name: "Idempotency-Key", description: "Replays the original response for retries with the same body" }],
+    body: createTodoSchema,
+    responses: {
+      201: { description: "The created todo", schema: todoResponseSchema },
+      400: errorResponse("Malformed JSON body"),
+      409: errorResponse("Idempotency-Key reused with a different body, or still in progress"),
+      422: errorResponse("Invalid todo"),
+    },
+  },
+  {
+    method: "delete",
+    path: "/todos",
+    operationId: "deleteCompletedTodos",
+    summary: "Delete the caller's completed todos (every user's for an admin)",
+    query: deleteTodosQuerySchema,
+    responses: {
+      200: { description: "Ids of the deleted todos", schema: deleteCompletedResponseSchema },
+      422: errorResponse("Missing completed=true"),
+    },
+  },
+  {
+    method: "post",
+    path: "/todos/bulk",
+    operationId: "bulkTodos",
+    summary: "Apply create/update/delete operations atomically",
+    headers: [{ name: "Idempotency-Key", description: "Replays the original response for retries with the same body" }],
+    body: bulkRequestSchema,
+    responses: {
+      200: { description: "One result per operation, in order", schema: bulkResponseSchema },
+      400: errorResponse("Malformed JSON body"),
+      403: errorResponse("An operation targeted another user's todo; nothing was applied"),
+      404: errorResponse("An operation referenced a missing todo; nothing was applied"),
+      409: errorResponse("Idempotency-Key reused with a different body, or still in progress"),
+      412: errorResponse("An operation's ifMatch was stale; nothing was applied"),
+      422: errorResponse("Invalid operations"),
+    },
+  },
+  {
+    method: "get",
+    path: "/todos/events",
+    operationId: "streamTodoEvents",
+    summary: "Stream todo.created, todo.updated and todo.deleted for the caller's todos as Server-Sent Events",
+    query: z.object({
+      access_token: z
+        .string()
+        .describe("A stream token from POST /todos/events/token, for clients that can't send Authorization")
+        .optional(),
+    }),
+    headers: [{ name: "Last-Event-ID", description: "Replays buffered events after this id, or sends stream.reset" }],
+    responses: {
+      200: {
+        description: "An event stream; each event's data is the full todo as JSON",
+        contentType: "text/event-stream",
+      },
+    },
+  },
+  {
+    method: "post",
+    path: "/todos/events/token",
+    operationId: "createStreamToken",
+    summary: "Mint a one-minute stream token for GET /todos/events?access_token=",
+    responses: {
+      200: { description: "The stream token", schema: streamTokenResponseSchema },
+    },
+  },
+  {
+    method: "get",
+    path: "/todos/{id}",
+    operationId: "getTodo",
+    summary: "Get a todo",
+    headers: [{ name: "If-None-Match", description: "Responds 304 if the ETag still matches" }],
+    responses: {
+      200: { description: "The todo; its version is returned as the ETag", schema: todoResponseSchema },
+      304: { description: "Not modified" },
+      403: forbiddenResponse,
+      404: errorResponse("Todo not found"),
+    },
+  },
+  {
+    method: "patch",
+    path: "/todos/{id}",
+    operationId: "updateTodo",
+    summary: "Partially update a todo",
+    headers: [{ name: "If-Match", description: "Only update if the ETag still matches" }],
+    body: updateTodoSchema,
+    responses: {
+      200: { description: "The updated todo", schema: todoResponseSchema },
+      400: errorResponse("Malformed JSON body"),
+      403: forbiddenResponse,
+      404: errorResponse("Todo not found"),
+      412: errorResponse("If-Match did not match the current ETag"),
+      422: errorResponse("Invalid changes"),
+    },
+  },
+  {
+    method: "delete",
+    path: "/todos/{id}",
+    operationId: "deleteTodo",
+    summary: "Delete a todo",
+    headers: [{ name: "If-Match", description: "Only delete if the ETag still matches" }],
+    responses: {
+      204: { description: "Deleted" },
+      403: forbiddenResponse,
+      404: errorResponse("Todo not found"),
+      412: errorResponse("If-Match did not match the current ETag"),
+    },
+  },
+  {
+    method: "post",
+    path: "/graphql",
+    operationId: "graphql",
+    summary: "Run a GraphQL query or mutation (schema in schema.graphql)",
+    headers: [
+      {
+        name: "Idempotency-Key",
+        description: "Replays the original response for retries with the same body, if it had no errors",
+      },
+    ],
+    body: graphqlRequestSchema,
+    responses: {
+      200: { description: "Execution result; resolver failures appear in errors", schema: graphqlResponseSchema },
+      400: { description: "The query could not be parsed, validated or given its variables", schema: graphqlResponseSchema },
+      409: errorResponse("Idempotency-Key reused with a different body, or still in progress"),
+      422: errorResponse("Body is not a GraphQL request"),
+    },
+  },
+];
+
+// --- Document generation ---
+
+type JsonSchema = Record<string, unknown>;
+
+// Request schemas are documented by what clients send (effectStrategy
+// "input"), not by what the transforms turn it into.
+function toJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const { $schema: _ignored, ...jsonSchema } = zodToJsonSchema(schema, {
+    $refStrategy: "none",
+    effectStrategy: "input",
+    pipeStrategy: "input",
+    removeAdditionalStrategy: "strict",
+  }) as JsonSchema;
+  return jsonSchema;
+}
+
+// .refine() wraps an object in ZodEffects; parameters need the object's shape.
+function objectShape(schema: ZodTypeAny): Record<string, ZodTypeAny> {
+  let current = schema;
+  while (current instanceof z.ZodEffects) {
+    current = current.innerType();
+  }
+  if (!(current instanceof z.ZodObject)) {
+    throw new Error("Query schemas must be Zod objects");
+  }
+  return current.shape;
+}
+
+function parameters(operation: ApiOperation): JsonSchema[] {
+  const pathParams = [...operation.path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+    name,
+    in: "path",
+    required: true,
+    schema: { type: "string" },
+  }));
+
+  const queryParams = Object.entries(operation.query ? objectShape(operation.query) : {}).map(([name, field]) => ({
+    name,
+    in: "query",
+    required: !field.isOptional(),
+    schema: toJsonSchema(field instanceof z.ZodOptional ? field.unwrap() : field),
+  }));
+
+  const headerParams = (operation.headers ?? []).map(({ name, description }) => ({
+    name,
+    in: "header",
+    required: false,
+    description,
+    schema: { type: "string" },
+  }));
+
+  return [...pathParams, ...queryParams, ...headerParams];
+}
+
+export function buildOpenApiDocument(): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+
+  for (const operation of todoApiOperations) {
+    const responses = Object.fromEntries(
+      Object.entries({
+        ...operation.responses,
+        ...(operation.authenticated !== false && authenticatedResponses),
+        ...(operation.rateLimited !== false && rateLimitedResponses),
+      }).map(([status, response]) => [
+        status,
+        {
+          description: response.description,
+          ...(response.schema && { content: { "application/json": { schema: toJsonSchema(response.schema) } } }),
+          ...(response.contentType && { content: { [response.contentType]: { schema: { type: "string" } } } }),
+        },
+      ]),
+    );
+
+    const params = parameters(operation);
+    (paths[operation.path] ??= {})[operation.method] = {
+      operationId: operation.operationId,
+      summary: operation.summary,
+      ...(operation.authenticated !== false && { security: [{ bearerAuth: [] }] }),
+      ...(params.length > 0 && { parameters: params }),
+      ...(operation.body && {
+        requestBody: { required: true, content: { "application/json": { schema: toJsonSchema(operation.body) } } },
+      }),
+      responses,
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Todo API",
+      version: "1.0.0",
+      description: "Every error uses the envelope { error: { code, message, details?, requestId? } }.",
+    },
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          bearerFormat: "JWT",
+          description: "HS256-signed JWT; `sub` is the user id and `role` is user (default) or admin",
+        },
+      },
+    },
+  };
+}
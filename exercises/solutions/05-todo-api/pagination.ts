@@ -0,0 +1,115 @@
+// --- Pagination ---
+// Cursors are keyset-based: they remember the sort value and id of the last
+// item returned, not a position. Inserting or deleting todos before that
+// item therefore never shifts the next page. The client just sees an opaque
+// base64url string.
+
+import { z } from "zod";
+import type { SortOrder, Todo, TodoPriority, TodoSortField } from "./todo";
+
+export interface TodoCursor {
+  sort: TodoSortField;
+  order: SortOrder;
+  value: string;
+  id: string;
+}
+
+const todoCursorSchema = z.object({
+  sort: z.enum(["createdAt", "title"]),
+  order: z.enum(["asc", "desc"]),
+  value: z.string(),
+  id: z.string(),
+});
+
+export function encodeCursor(cursor: TodoCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeCursor(raw: string): TodoCursor | undefined {
+  try {
+    const json: unknown = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    const result = todoCursorSchema.safeParse(json);
+    return result.success ? result.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function sortValue(todo: Todo, sort: TodoSortField): string {
+  return sort === "createdAt" ? todo.createdAt.toISOString() : todo.title;
+}
+
+// Total order over todos: the sort field first, then id as a tie-breaker so
+// todos created in the same millisecond (or sharing a title) stay stable.
+function compareBySort(
+  a: { value: string; id: string },
+  b: { value: string; id: string },
+  order: SortOrder,
+): number {
+  const byValue = a.value < b.value ? -1 : a.value > b.value ? 1 : 0;
+  const result = byValue !== 0 ? byValue : a.id.localeCompare(b.id, undefined, { numeric: true });
+  return order === "asc" ? result : -result;
+}
+
+export interface TodoFilter {
+  // Only todos owned by this user; unset for admins, who see everyone's.
+  ownerId?: string;
+  completed?: boolean;
+  tag?: string[];
+  priority?: TodoPriority[];
+  overdue?: boolean;
+  q?: string;
+}
+
+export interface TodoListOptions extends TodoFilter {
+  // Reference time for `overdue`.
+  now: Date;
+  sort: TodoSortField;
+  order: SortOrder;
+  limit: number;
+  after?: TodoCursor;
+  offset?: number;
+}
+
+export interface TodoPage {
+  items: Todo[];
+  total: number;
+  hasMore: boolean;
+}
+
+function isOverdue(todo: Todo, now: Date): boolean {
+  return !todo.completed && todo.dueDate !== null && todo.dueDate < now;
+}
+
+export function matchesFilter(todo: Todo, options: TodoFilter & { now: Date }): boolean {
+  const { ownerId, completed, tag, priority, overdue, q, now } = options;
+
+  if (ownerId !== undefined && todo.ownerId !== ownerId) return false;
+  if (completed !== undefined && todo.completed !== completed) return false;
+  if (tag && !tag.every((t) => todo.tags.includes(t))) return false;
+  if (priority && !priority.includes(todo.priority)) return false;
+  if (overdue !== undefined && isOverdue(todo, now) !== overdue) return false;
+  if (q) {
+    const haystack = `${todo.title}\n${todo.description ?? ""}`.toLowerCase();
+    if (!q.toLowerCase().split(/\s+/).every((word) => haystack.includes(word))) return false;
+  }
+  return true;
+}
+
+// Filtering, sorting and slicing for backends that hold todos in memory.
+export function paginateTodos(todos: Todo[], options: TodoListOptions): TodoPage {
+  const { sort, order, limit, after } = options;
+  const key = (todo: Todo) => ({ value: sortValue(todo, sort), id: todo.id });
+
+  const filtered = todos.filter((todo) => matchesFilter(todo, options));
+  const sorted = [...filtered].sort((a, b) => compareBySort(key(a), key(b), order));
+
+  let start = options.offset ?? 0;
+  if (after) {
+    const firstAfter = sorted.findIndex((todo) => compareBySort(key(todo), after, order) > 0);
+    start = firstAfter === -1 ? sorted.length : firstAfter;
+  }
+
+  const items = sorted.slice(start, start + limit);
+  return { items, total: filtered.length, hasMore: start + limit < sorted.length };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { InMemoryRateLimitStore } from "./rate-limit";
+
+// The store takes `now` as an argument, so time is just a number here.
+
+const policy = { limit: 3, windowMs: 3_000 };
+
+describe("InMemoryRateLimitStore", () => {
+  it("allows a burst up to the limit, then rejects", async () => {
+    const store = new InMemoryRateLimitStore();
+
+    const decisions = [];
+    for (let i = 0; i < 4; i++) {
+      decisions.push(await store.consume("client", policy, 0));
+    }
+
+    expect(decisions.map((d) => d.allowed)).toEqual([true, true, true, false]);
+    expect(decisions.map((d) => d.remaining)).toEqual([2, 1, 0, 0]);
+    expect(decisions[3]).toMatchObject({ retryAfterMs: 1_000, resetMs: 3_000 });
+  });
+
+  it("refills one token per windowMs / limit", async () => {
+    const store = new InMemoryRateLimitStore();
+    for (let i = 0; i < 3; i++) {
+      await store.consume("client", policy, 0);
+    }
+
+    expect((await store.consume("client", policy, 999)).allowed).toBe(false);
+    expect((await store.consume("client", policy, 1_999)).allowed).toBe(true);
+  });
+
+  it("never refills beyond the limit", async () => {
+    const store = new InMemoryRateLimitStore();
+    await store.consume("client", policy, 0);
+
+    const decision = await store.consume("client", policy, 60_000);
+    expect(decision.remaining).toBe(2);
+  });
+
+  it("tracks keys independently", async () => {
+    const store = new InMemoryRateLimitStore();
+    for (let i = 0; i < 3; i++) {
+      await store.consume("a", policy, 0);
+    }
+
+    expect((await store.consume("a", policy, 0)).allowed).toBe(false);
+    expect((await store.consume("b", policy, 0)).allowed).toBe(true);
+  });
+
+  it("spends `cost` tokens at once, or none", async () => {
+    const store = new InMemoryRateLimitStore();
+
+    expect(await store.consume("client", policy, 0, 2)).toMatchObject({ allowed: true, remaining: 1 });
+    expect(await store.consume("client", policy, 0, 2)).toMatchObject({
+      allowed: false,
+      remaining: 1,
+      retryAfterMs: 1_000,
+    });
+    expect((await store.consume("client", policy, 0)).allowed).toBe(true);
+  });
+});
@@ -0,0 +1,137 @@
+// --- Rate Limiting ---
+// Token bucket per client: each client starts with `limit` tokens, every
+// request spends one (or `cost`, for requests that do several things the
+// limit counts), and tokens refill continuously so a full bucket is
+// regained after `windowMs`. That allows short bursts up to `limit` while
+// holding the long-run rate to `limit` per window.
+//
+// Clients are identified by their X-Api-Key when present, otherwise by IP.
+// Responses carry the IETF draft RateLimit-* headers; rejected requests get
+// 429 with Retry-After.
+
+import type { NextFunction, Request, Response } from "express";
+import { createHash } from "node:crypto";
+import { RateLimitedError } from "./errors";
+
+export interface RateLimitPolicy {
+  limit: number;
+  windowMs: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  // Until the bucket is full again.
+  resetMs: number;
+  // Until the next request would be allowed; 0 when allowed.
+  retryAfterMs: number;
+}
+
+// `consume` must be atomic per key — a Redis store would do the refill and
+// spend in a single Lua script so concurrent servers can't double-spend.
+// Either all `cost` tokens are spent or none are.
+export interface RateLimitStore {
+  consume(key: string, policy: RateLimitPolicy, now: number, cost?: number): Promise<RateLimitDecision>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, Bucket>();
+  private consumesSinceSweep = 0;
+
+  async consume(key: string, policy: RateLimitPolicy, now: number, cost = 1): Promise<RateLimitDecision> {
+    const refillPerMs = policy.limit / policy.windowMs;
+    const bucket = this.buckets.get(key) ?? { tokens: policy.limit, updatedAt: now };
+    const elapsed = Math.max(0, now - bucket.updatedAt);
+
+    let tokens = Math.min(policy.limit, bucket.tokens + elapsed * refillPerMs);
+    const allowed = tokens >= cost;
+    if (allowed) {
+      tokens -= cost;
+    }
+
+    this.buckets.set(key, { tokens, updatedAt: now });
+    this.sweep(policy, now);
+
+    return {
+      allowed,
+      remaining: Math.floor(tokens),
+      resetMs: Math.ceil((policy.limit - tokens) / refillPerMs),
+      retryAfterMs: allowed ? 0 : Math.ceil((cost - tokens) / refillPerMs),
+    };
+  }
+
+  // A bucket idle for a full window is full again, which is exactly what a
+  // missing bucket means, so it can be dropped.
+  private sweep(policy: RateLimitPolicy, now: number): void {
+    if (++this.consumesSinceSweep < 1000) {
+      return;
+    }
+    this.consumesSinceSweep = 0;
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt >= policy.windowMs) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+export interface RateLimitOptions extends RateLimitPolicy {
+  // Namespaces the bucket, so route limits don't share tokens with the global one.
+  name: string;
+  store: RateLimitStore;
+  now: () => number;
+  clientKey?: (req: Request) => string;
+}
+
+// API keys are hashed so a shared store never holds the raw secret.
+export function defaultClientKey(req: Request): string {
+  const apiKey = req.get("X-Api-Key");
+  if (apiKey) {
+    return `key:${createHash("sha256").update(apiKey).digest("hex").slice(0, 32)}`;
+  }
+  return `ip:${req.ip ?? req.socket.remoteAddress ?? "unknown"}`;
+}
+
+// Spends `cost` tokens from the caller's bucket, sets the RateLimit-*
+// headers and rejects with RateLimitedError when the bucket can't cover it.
+// For handlers that only know the cost once the body is parsed.
+export type RateLimiter = (req: Request, res: Response, cost?: number) => Promise<void>;
+
+export function createRateLimiter(options: RateLimitOptions): RateLimiter {
+  const { name, store, now, limit, windowMs, clientKey = defaultClientKey } = options;
+  const policy: RateLimitPolicy = { limit, windowMs };
+  const seconds = (ms: number) => Math.ceil(ms / 1000);
+
+  return async (req, res, cost = 1) => {
+    // More than a full bucket never fits, so waiting wouldn't help.
+    if (cost > limit) {
+      throw new RateLimitedError("Request exceeds the rate limit on its own", { limit, cost });
+    }
+
+    const decision = await store.consume(`${name}:${clientKey(req)}`, policy, now(), cost);
+    res.setHeader("RateLimit-Policy", `${limit};w=${seconds(windowMs)}`);
+    res.setHeader("RateLimit-Limit", String(limit));
+    res.setHeader("RateLimit-Remaining", String(decision.remaining));
+    res.setHeader("RateLimit-Reset", String(seconds(decision.resetMs)));
+
+    if (!decision.allowed) {
+      res.setHeader("Retry-After", String(seconds(decision.retryAfterMs)));
+      throw new RateLimitedError("Too many requests", {
+        retryAfterSeconds: seconds(decision.retryAfterMs),
+      });
+    }
+  };
+}
+
+export function rateLimit(options: RateLimitOptions) {
+  const limiter = createRateLimiter(options);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    limiter(req, res).then(() => next(), next);
+  };
+}
@@ -0,0 +1,89 @@
+// --- Request Context & Logging ---
+// Each request runs inside an AsyncLocalStorage scope, so handlers, the
+// repository and the error formatter can read the request id without it
+// being threaded through every function signature.
+
+import type { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import type { Principal } from "./auth";
+
+interface RequestContext {
+  requestId: string;
+  todoId?: string;
+  principal?: Principal;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+export function currentRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+// Records the todo a request acted on so it shows up in the access log.
+export function setTodoId(todoId: string): void {
+  const context = requestContext.getStore();
+  if (context) {
+    context.todoId = todoId;
+  }
+}
+
+// The authenticated caller, set by the authenticate middleware.
+export function currentPrincipal(): Principal | undefined {
+  return requestContext.getStore()?.principal;
+}
+
+export function setPrincipal(principal: Principal): void {
+  const context = requestContext.getStore();
+  if (context) {
+    context.principal = principal;
+  }
+}
+
+export type LogLevel = "info" | "warn" | "error";
+
+export function log(level: LogLevel, eventName: string, fields: Record<string, unknown>): void {
+  const line = JSON.stringify({
+    timestamp: new Date().toISOString(),
+    level,
+    service: "todo-api",
+    eventName,
+    requestId: currentRequestId(),
+    ...fields,
+  });
+  if (level === "error") {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+// Client-supplied ids are echoed into logs and headers, so only accept
+// short, boring ones; anything else gets a fresh UUID.
+const requestIdSchema = z.string().regex(/^[\w.:-]{1,128}$/);
+
+export function requestContextMiddleware(req: Request, res: Response, next: NextFunction): void {
+  const incoming = requestIdSchema.safeParse(req.get("X-Request-Id"));
+  const context: RequestContext = { requestId: incoming.success ? incoming.data : randomUUID() };
+  const startedAt = performance.now();
+
+  res.setHeader("X-Request-Id", context.requestId);
+
+  res.on("finish", () => {
+    const level: LogLevel = res.statusCode >= 500 ? "error" : res.statusCode >= 400 ? "warn" : "info";
+    // finish fires outside the request's async scope, so pass the id explicitly.
+    requestContext.run(context, () => {
+      log(level, "http.request", {
+        method: req.method,
+        path: req.originalUrl.split("?")[0],
+        status: res.statusCode,
+        latencyMs: Math.round((performance.now() - startedAt) * 100) / 100,
+        todoId: context.todoId,
+        userId: context.principal?.userId,
+      });
+    });
+  });
+
+  requestContext.run(context, next);
+}
@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createTodoApp } from "./app";
+import { signToken } from "./auth";
+import { createGracefulShutdown, handleShutdownSignals } from "./shutdown";
+import type { TodoListOptions, TodoPage } from "./pagination";
+import { InMemoryTodoRepository } from "./todo-repository";
+
+// The server is started the way the entrypoint starts it, then SIGTERM is
+// emitted on `process` while a request is still being handled. `exit` is a
+// spy, so the test process itself keeps running.
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => (resolve = r));
+  return { promise, resolve };
+}
+
+// list() blocks until the test releases it, standing in for a slow query.
+class SlowRepository extends InMemoryTodoRepository {
+  listStarted = deferred();
+  release = deferred();
+
+  override async list(options: TodoListOptions): Promise<TodoPage> {
+    this.listStarted.resolve();
+    await this.release.promise;
+    return super.list(options);
+  }
+}
+
+let repository: SlowRepository;
+let server: Server;
+let baseUrl: string;
+let shuttingDown: boolean;
+let exit: ReturnType<typeof vi.fn<(code: number) => void>>;
+let removeSignalHandlers: () => void;
+
+const secret = "shutdown-test-secret-0123456789a";
+const authorized = {
+  headers: {
+    Authorization: `Bearer ${signToken({ userId: "alice", role: "user" }, { secret, now: new Date(), expiresInSeconds: 3600 })}`,
+  },
+};
+
+async function startServer(drainTimeoutMs: number): Promise<void> {
+  const app = createTodoApp({ repository, auth: { secret }, isShuttingDown: () => shuttingDown });
+  server = app.listen(0);
+  await new Promise<void>((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const shutdown = createGracefulShutdown(server, {
+    drainTimeoutMs,
+    close: () => repository.close(),
+    onDrainStart: () => {
+      shuttingDown = true;
+    },
+  });
+  removeSignalHandlers = handleShutdownSignals(shutdown, exit);
+}
+
+function exited(): Promise<number> {
+  return vi.waitFor(() => {
+    expect(exit).toHaveBeenCalled();
+    return exit.mock.calls[0]![0];
+  });
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  repository = new SlowRepository();
+  shuttingDown = false;
+  exit = vi.fn<(code: number) => void>();
+});
+
+afterEach(async () => {
+  removeSignalHandlers?.();
+  repository.release.resolve();
+  if (server.listening) {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+  vi.restoreAllMocks();
+});
+
+describe("graceful shutdown", () => {
+  it("finishes an in-flight request on SIGTERM, then closes the store and exits 0", async () => {
+    await startServer(5_000);
+    const close = vi.spyOn(repository, "close");
+
+    const inFlight = fetch(`${baseUrl}/todos`, authorized);
+    await repository.listStarted.promise;
+
+    process.emit("SIGTERM", "SIGTERM");
+    expect(shuttingDown).toBe(true);
+
+    // New connections are refused while the old request drains.
+    await expect(fetch(`${baseUrl}/health`)).rejects.toThrow();
+    expect(close).not.toHaveBeenCalled();
+
+    repository.release.resolve();
+    const res = await inFlight;
+    expect(res.status).toBe(200);
+    expect(res.headers.get("connection")).toBe("close");
+    expect(await res.json()).toEqual({ items: [], nextCursor: null, total: 0 });
+
+    expect(await exited()).toBe(0);
+    expect(close).toHaveBeenCalledTimes(1);
+  });
+
+  it("drops requests still running at the deadline and exits 1", async () => {
+    await startServer(50);
+    const close = vi.spyOn(repository, "close");
+
+    const inFlight = fetch(`${baseUrl}/todos`, authorized);
+    await repository.listStarted.promise;
+
+    process.emit("SIGINT", "SIGINT");
+
+    await expect(inFlight).rejects.toThrow();
+    expect(await exited()).toBe(1);
+    expect(close).toHaveBeenCalledTimes(1);
+  });
+
+  it("ends open event streams instead of waiting for them", async () => {
+    await startServer(5_000);
+
+    const stream = await fetch(`${baseUrl}/todos/events`, authorized);
+    const reader = stream.body!.getReader();
+
+    process.emit("SIGTERM", "SIGTERM");
+
+    expect((await reader.read()).done).toBe(true);
+    expect(await exited()).toBe(0);
+  });
+
+  it("exits immediately with 1 on a second signal", async () => {
+    await startServer(5_000);
+
+    const inFlight = fetch(`${baseUrl}/todos`, authorized).catch(() => undefined);
+    await repository.listStarted.promise;
+
+    process.emit("SIGTERM", "SIGTERM");
+    process.emit("SIGTERM", "SIGTERM");
+
+    expect(exit).toHaveBeenCalledWith(1);
+    repository.release.resolve();
+    await inFlight;
+  });
+});
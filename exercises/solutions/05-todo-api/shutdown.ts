@@ -0,0 +1,118 @@
+// --- Graceful Shutdown ---
+// On SIGTERM/SIGINT the server stops accepting connections, lets in-flight
+// requests finish and then closes the store. Requests still running when the
+// drain deadline passes have their connections destroyed, and the process
+// exits non-zero so the forced stop is visible.
+//
+// Event streams (GET /todos/events) never finish on their own, so they are
+// ended as soon as the drain starts; EventSource clients reconnect, to
+// another instance, with their Last-Event-ID.
+
+import type { Server, ServerResponse } from "node:http";
+import { log } from "./request-context";
+
+export interface GracefulShutdownOptions {
+  // How long in-flight requests get before their connections are destroyed.
+  drainTimeoutMs: number;
+  // Runs once the server has stopped, e.g. to close the store.
+  close: () => Promise<void>;
+  // Called when the drain starts, so /ready can start failing.
+  onDrainStart?: () => void;
+}
+
+// Resolves to the exit code: 0 after a clean drain, 1 if anything was forced
+// or failed. Calling it again returns the same promise.
+export type Shutdown = (reason: string) => Promise<number>;
+
+function isEventStream(res: ServerResponse): boolean {
+  return String(res.getHeader("Content-Type") ?? "").startsWith("text/event-stream");
+}
+
+// Must be called right after listen(), so it sees every request.
+export function createGracefulShutdown(server: Server, options: GracefulShutdownOptions): Shutdown {
+  const { drainTimeoutMs, close, onDrainStart } = options;
+  const inFlight = new Set<ServerResponse>();
+  let draining = false;
+  let result: Promise<number> | undefined;
+
+  server.on("request", (_req, res: ServerResponse) => {
+    inFlight.add(res);
+    res.on("close", () => inFlight.delete(res));
+
+    if (draining) {
+      // A request that arrived on an already-open keep-alive connection.
+      res.setHeader("Connection", "close");
+    }
+    res.on("finish", () => {
+      if (draining) {
+        // Keep-alive sockets would otherwise hold server.close() open.
+        setImmediate(() => server.closeIdleConnections());
+      }
+    });
+  });
+
+  async function drain(reason: string): Promise<number> {
+    draining = true;
+    onDrainStart?.();
+    log("info", "server.shutdown_started", { reason, inFlight: inFlight.size });
+
+    const stopped = new Promise<void>((resolve) => server.close(() => resolve()));
+    for (const res of inFlight) {
+      if (isEventStream(res)) {
+        res.end();
+      } else if (!res.headersSent) {
+        res.setHeader("Connection", "close");
+      }
+    }
+    server.closeIdleConnections();
+
+    let forced = false;
+    const deadline = setTimeout(() => {
+      forced = true;
+      log("warn", "server.drain_timeout", { drainTimeoutMs, dropped: inFlight.size });
+      server.closeAllConnections();
+    }, drainTimeoutMs);
+
+    await stopped;
+    clearTimeout(deadline);
+
+    try {
+      await close();
+    } catch (err) {
+      log("error", "server.close_failed", {
+        message: err instanceof Error ? err.message : String(err),
+        stack: err instanceof Error ? err.stack : undefined,
+      });
+      return 1;
+    }
+
+    log("info", "server.shutdown_complete", { reason, forced });
+    return forced ? 1 : 0;
+  }
+
+  return (reason) => (result ??= drain(reason));
+}
+
+// Runs `shutdown` on the first signal and exits with its code. A second
+// signal exits immediately, for when an operator doesn't want to wait.
+// Returns a function that removes the handlers again.
+export function handleShutdownSignals(
+  shutdown: Shutdown,
+  exit: (code: number) => void = (code) => process.exit(code),
+  signals: NodeJS.Signals[] = ["SIGTERM", "SIGINT"],
+): () => void {
+  let received = false;
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (received) {
+      log("warn", "server.shutdown_forced", { signal });
+      exit(1);
+      return;
+    }
+    received = true;
+    void shutdown(signal).then(exit);
+  };
+
+  signals.forEach((signal) => process.on(signal, onSignal));
+  return () => signals.forEach((signal) => process.off(signal, onSignal));
+}
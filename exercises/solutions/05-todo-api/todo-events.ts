@@ -0,0 +1,25 @@
+// --- Todo Events ---
+// Mutation routes publish what they changed here instead of only answering
+// the request, so other parts of the app (the SSE change feed, later
+// integrations) can react without the handlers knowing about them.
+
+import { TypedEventEmitter } from "../02-type-safe-event-emitter/typed-event-emitter";
+import type { Todo } from "./todo";
+
+// Every event carries the full todo; for `todo.deleted` it's the last state
+// before the delete.
+export interface TodoEventMap {
+  "todo.created": Todo;
+  "todo.updated": Todo;
+  "todo.deleted": Todo;
+}
+
+export type TodoEventType = keyof TodoEventMap;
+
+export const todoEventTypes: TodoEventType[] = ["todo.created", "todo.updated", "todo.deleted"];
+
+export type TodoEventBus = TypedEventEmitter<TodoEventMap>;
+
+export function createTodoEventBus(): TodoEventBus {
+  return new TypedEventEmitter<TodoEventMap>();
+}
@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Todo } from "./todo";
+import { FileTodoRepository } from "./todo-repository";
+
+let dir: string;
+let file: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "todo-repository-"));
+  file = join(dir, "todos.json");
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+function todo(id: string): Todo {
+  const createdAt = new Date("2026-01-01T00:00:00.000Z");
+  return {
+    id,
+    ownerId: "alice",
+    title: `Todo ${id}`,
+    description: null,
+    completed: false,
+    priority: "medium",
+    tags: [],
+    dueDate: null,
+    createdAt,
+    updatedAt: createdAt,
+    version: 1,
+  };
+}
+
+describe("FileTodoRepository", () => {
+  it("persists writes across instances", async () => {
+    const repository = new FileTodoRepository(file);
+    await repository.create(todo("1"));
+    await repository.update("1", { completed: true });
+
+    expect(await new FileTodoRepository(file).findById("1")).toMatchObject({ completed: true, version: 2 });
+  });
+
+  it("rolls back a write whose save failed and recovers once the disk is fine", async () => {
+    const repository = new FileTodoRepository(file);
+    await repository.create(todo("1"));
+
+    // A non-empty directory in the file's place makes the rename fail.
+    await rm(file);
+    await mkdir(join(file, "obstacle"), { recursive: true });
+    await expect(repository.create(todo("2"))).rejects.toThrow();
+    expect(await repository.findById("2")).toBeUndefined();
+    await expect(repository.healthCheck()).rejects.toThrow();
+
+    await rm(file, { recursive: true });
+    await repository.create(todo("3"));
+    await expect(repository.healthCheck()).resolves.toBeUndefined();
+    expect((await new FileTodoRepository(file).findByIds(["1", "2", "3"])).map((t) => t.id)).toEqual(["1", "3"]);
+  });
+
+  it("retries loading after a failed read", async () => {
+    await mkdir(file);
+    const repository = new FileTodoRepository(file);
+    await expect(repository.findById("1")).rejects.toThrow();
+
+    await rm(file, { recursive: true });
+    await writeFile(file, JSON.stringify({ todos: [todo("1")] }));
+    expect(await repository.findById("1")).toMatchObject({ id: "1" });
+  });
+});
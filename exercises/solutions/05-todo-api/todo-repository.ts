@@ -0,0 +1,314 @@
+// --- Persistence Layer ---
+// Routes only talk to this interface, so swapping the in-memory store for a
+// file (or later a Postgres) backend doesn't touch any handler code.
+// Every method is async because real backends are.
+
+import { z } from "zod";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { NotFoundError, PreconditionFailedError } from "./errors";
+import { matchesFilter, paginateTodos, TodoFilter, TodoListOptions, TodoPage } from "./pagination";
+import { Todo, TodoChanges, todoPriorities } from "./todo";
+
+// Checked against the stored todo inside the write, so a concurrent update
+// can't slip in between the check and the change. Typically an If-Match test.
+export type Precondition = (current: Todo) => boolean;
+
+// One write inside a batch. The app builds these (ids, timestamps) and the
+// repository applies them.
+export type TodoWrite =
+  | { op: "create"; todo: Todo }
+  | { op: "update"; id: string; changes: TodoChanges; precondition?: Precondition }
+  | { op: "delete"; id: string; precondition?: Precondition };
+
+export type TodoWriteResult =
+  | { op: "create"; todo: Todo }
+  | { op: "update"; todo: Todo }
+  | { op: "delete"; todo: Todo };
+
+// update/delete return undefined when the todo doesn't exist and throw
+// PreconditionFailedError when it exists but the precondition fails. Deletes
+// return the removed todo, so callers can still report what was deleted.
+//
+// applyBatch is all-or-nothing: if any write fails (NotFoundError or
+// PreconditionFailedError, with the failing `operation` index in details)
+// none of them are applied.
+export interface TodoRepository {
+  list(options: TodoListOptions): Promise<TodoPage>;
+  findById(id: string): Promise<Todo | undefined>;
+  // One round trip for many ids; missing ids are simply left out.
+  findByIds(ids: readonly string[]): Promise<Todo[]>;
+  create(todo: Todo): Promise<Todo>;
+  update(id: string, changes: TodoChanges, precondition?: Precondition): Promise<Todo | undefined>;
+  delete(id: string, precondition?: Precondition): Promise<Todo | undefined>;
+  applyBatch(writes: TodoWrite[]): Promise<TodoWriteResult[]>;
+  // Deletes every todo matching the filter and returns them.
+  deleteMatching(filter: TodoFilter, now: Date): Promise<Todo[]>;
+  // Rejects when the store can't serve requests; backs GET /ready.
+  healthCheck(): Promise<void>;
+  // Finishes pending writes before the process exits.
+  close(): Promise<void>;
+}
+
+function assertPrecondition(
+  todo: Todo,
+  precondition: Precondition | undefined,
+  details: Record<string, unknown> = {},
+): void {
+  if (precondition && !precondition(todo)) {
+    throw new PreconditionFailedError("Todo was modified by someone else", {
+      ...details,
+      id: todo.id,
+      currentVersion: todo.version,
+    });
+  }
+}
+
+export class InMemoryTodoRepository implements TodoRepository {
+  protected todos: Todo[] = [];
+
+  async list(options: TodoListOptions): Promise<TodoPage> {
+    return paginateTodos(this.todos, options);
+  }
+
+  async findById(id: string): Promise<Todo | undefined> {
+    return this.todos.find((t) => t.id === id);
+  }
+
+  async findByIds(ids: readonly string[]): Promise<Todo[]> {
+    const wanted = new Set(ids);
+    return this.todos.filter((t) => wanted.has(t.id));
+  }
+
+  async create(todo: Todo): Promise<Todo> {
+    this.todos.push(todo);
+    return todo;
+  }
+
+  async update(id: string, changes: TodoChanges, precondition?: Precondition): Promise<Todo | undefined> {
+    const index = this.todos.findIndex((t) => t.id === id);
+    if (index === -1) {
+      return undefined;
+    }
+
+    const existing = this.todos[index]!;
+    assertPrecondition(existing, precondition);
+
+    const updated: Todo = { ...existing, ...changes, version: existing.version + 1 };
+    this.todos[index] = updated;
+    return updated;
+  }
+
+  async delete(id: string, precondition?: Precondition): Promise<Todo | undefined> {
+    const index = this.todos.findIndex((t) => t.id === id);
+    if (index === -1) {
+      return undefined;
+    }
+
+    const existing = this.todos[index]!;
+    assertPrecondition(existing, precondition);
+    this.todos.splice(index, 1);
+    return existing;
+  }
+
+  // Works on a copy and only swaps it in once every write succeeded. There is
+  // no await in between, so no other request can observe a half-applied batch.
+  async applyBatch(writes: TodoWrite[]): Promise<TodoWriteResult[]> {
+    const todos = [...this.todos];
+    const results: TodoWriteResult[] = [];
+
+    writes.forEach((write, operation) => {
+      if (write.op === "create") {
+        todos.push(write.todo);
+        results.push({ op: "create", todo: write.todo });
+        return;
+      }
+
+      const index = todos.findIndex((t) => t.id === write.id);
+      if (index === -1) {
+        throw new NotFoundError("Todo not found", { operation, id: write.id });
+      }
+
+      const existing = todos[index]!;
+      assertPrecondition(existing, write.precondition, { operation });
+
+      if (write.op === "update") {
+        const updated: Todo = { ...existing, ...write.changes, version: existing.version + 1 };
+        todos[index] = updated;
+        results.push({ op: "update", todo: updated });
+      } else {
+        todos.splice(index, 1);
+        results.push({ op: "delete", todo: existing });
+      }
+    });
+
+    this.todos = todos;
+    return results;
+  }
+
+  async deleteMatching(filter: TodoFilter, now: Date): Promise<Todo[]> {
+    const deleted = this.todos.filter((todo) => matchesFilter(todo, { ...filter, now }));
+    this.todos = this.todos.filter((todo) => !deleted.includes(todo));
+    return deleted;
+  }
+
+  async healthCheck(): Promise<void> {}
+
+  async close(): Promise<void> {}
+}
+
+// Shape of the JSON file on disk. Dates are stored as ISO strings.
+// Defaults let files written by older versions of the API load unchanged;
+// todos saved before ownership existed get no owner, so only admins see them.
+const todoFileSchema = z.object({
+  todos: z.array(
+    z
+      .object({
+        id: z.string(),
+        ownerId: z.string().default(""),
+        title: z.string(),
+        description: z.string().nullable().default(null),
+        completed: z.boolean(),
+        priority: z.enum(todoPriorities).default("medium"),
+        tags: z.array(z.string()).default([]),
+        dueDate: z.coerce.date().nullable().default(null),
+        createdAt: z.coerce.date(),
+        updatedAt: z.coerce.date().optional(),
+        version: z.number().int().positive().default(1),
+      })
+      .transform((todo): Todo => ({ ...todo, updatedAt: todo.updatedAt ?? todo.createdAt })),
+  ),
+});
+
+// Keeps the in-memory behavior, but loads from and saves to a JSON file so
+// data survives restarts. Writes go to a temp file first and are renamed
+// into place, so a crash mid-write never leaves a half-written store.
+export class FileTodoRepository extends InMemoryTodoRepository {
+  private loaded: Promise<void> | undefined;
+  // Every write, in order; see write().
+  private writes: Promise<unknown> = Promise.resolve();
+  // Set while the latest save failed; cleared by the next one that works.
+  private saveError: unknown;
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  override async list(options: TodoListOptions): Promise<TodoPage> {
+    await this.load();
+    return super.list(options);
+  }
+
+  override async findById(id: string): Promise<Todo | undefined> {
+    await this.load();
+    return super.findById(id);
+  }
+
+  override async findByIds(ids: readonly string[]): Promise<Todo[]> {
+    await this.load();
+    return super.findByIds(ids);
+  }
+
+  override create(todo: Todo): Promise<Todo> {
+    return this.write(() => super.create(todo));
+  }
+
+  override update(id: string, changes: TodoChanges, precondition?: Precondition): Promise<Todo | undefined> {
+    return this.write(
+      () => super.update(id, changes, precondition),
+      (updated) => updated !== undefined,
+    );
+  }
+
+  override delete(id: string, precondition?: Precondition): Promise<Todo | undefined> {
+    return this.write(
+      () => super.delete(id, precondition),
+      (deleted) => deleted !== undefined,
+    );
+  }
+
+  override applyBatch(writes: TodoWrite[]): Promise<TodoWriteResult[]> {
+    return this.write(() => super.applyBatch(writes));
+  }
+
+  override deleteMatching(filter: TodoFilter, now: Date): Promise<Todo[]> {
+    return this.write(
+      () => super.deleteMatching(filter, now),
+      (deleted) => deleted.length > 0,
+    );
+  }
+
+  // Healthy once the file has loaded and the latest save went through.
+  override async healthCheck(): Promise<void> {
+    await this.load();
+    await this.writes.catch(() => {});
+    if (this.saveError !== undefined) {
+      throw this.saveError;
+    }
+  }
+
+  // A failed write has already been reported to the request that made it.
+  override async close(): Promise<void> {
+    await this.writes.catch(() => {});
+  }
+
+  // A failed load isn't cached, so the next call tries again.
+  private load(): Promise<void> {
+    this.loaded ??= (async () => {
+      let raw: string;
+      try {
+        raw = await readFile(this.filePath, "utf8");
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+          return; // first run — start empty
+        }
+        throw err;
+      }
+
+      this.todos = todoFileSchema.parse(JSON.parse(raw)).todos;
+    })().catch((err: unknown) => {
+      this.loaded = undefined;
+      throw err;
+    });
+    return this.loaded;
+  }
+
+  // Writes run one at a time, so two concurrent requests can't interleave
+  // renames, and each applies its change in memory and then saves it. When
+  // the save fails the change is rolled back, so a request that failed
+  // leaves nothing behind for later reads. A failed write doesn't hold up
+  // the ones queued after it.
+  private write<T>(apply: () => Promise<T>, changed: (result: T) => boolean = () => true): Promise<T> {
+    const write = this.writes
+      .catch(() => {})
+      .then(async () => {
+        await this.load();
+        const before = [...this.todos];
+        const result = await apply();
+        if (changed(result)) {
+          try {
+            await this.save();
+          } catch (err) {
+            this.todos = before;
+            throw err;
+          }
+        }
+        return result;
+      });
+    this.writes = write;
+    return write;
+  }
+
+  private async save(): Promise<void> {
+    const tmpPath = `${this.filePath}.tmp`;
+    try {
+      await mkdir(dirname(this.filePath), { recursive: true });
+      await writeFile(tmpPath, JSON.stringify({ todos: this.todos }, null, 2), "utf8");
+      await rename(tmpPath, this.filePath);
+      this.saveError = undefined;
+    } catch (err) {
+      this.saveError = err;
+      throw err;
+    }
+  }
+}
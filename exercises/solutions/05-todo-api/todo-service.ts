@@ -0,0 +1,201 @@
+// --- Todo Service ---
+// What the API can do with todos, independent of transport. The REST routes
+// and the GraphQL resolvers both validate input with the schemas in ./todo
+// and then call this, so ids, timestamps, preconditions and published events
+// behave the same whichever way a client comes in.
+//
+// Every method takes the authenticated caller (`actor`). Lists only include
+// the caller's own todos, and reading or writing someone else's todo fails
+// with ForbiddenError; admins are exempt from both.
+
+import { canAccess, Principal } from "./auth";
+import { ForbiddenError, NotFoundError, ValidationError } from "./errors";
+import { ifMatchSatisfied, todoEtag } from "./etag";
+import { decodeCursor, encodeCursor, sortValue, TodoCursor } from "./pagination";
+import type { BulkOperation, CreateTodoInput, ListTodosQuery, Todo, UpdateTodoInput } from "./todo";
+import type { TodoEventBus } from "./todo-events";
+import type { Precondition, TodoRepository, TodoWrite, TodoWriteResult } from "./todo-repository";
+
+export interface TodoServiceDeps {
+  repository: TodoRepository;
+  clock: () => Date;
+  generateId: () => string;
+  events: TodoEventBus;
+}
+
+// nextCursor is null on the last page.
+export interface TodoListResult {
+  items: Todo[];
+  nextCursor: string | null;
+  total: number;
+}
+
+export interface TodoService {
+  list(actor: Principal, query: ListTodosQuery): Promise<TodoListResult>;
+  // Undefined for a missing todo; throws ForbiddenError for someone else's.
+  findById(actor: Principal, id: string): Promise<Todo | undefined>;
+  // Same order as `ids`; undefined where a todo doesn't exist and a
+  // ForbiddenError where it isn't the caller's, so one id can't fail the rest.
+  findByIds(actor: Principal, ids: readonly string[]): Promise<(Todo | ForbiddenError | undefined)[]>;
+  create(actor: Principal, input: CreateTodoInput): Promise<Todo>;
+  // update/delete throw NotFoundError for a missing todo, ForbiddenError for
+  // someone else's and PreconditionFailedError when `ifMatch` is stale.
+  update(actor: Principal, id: string, input: UpdateTodoInput, ifMatch?: string): Promise<Todo>;
+  delete(actor: Principal, id: string, ifMatch?: string): Promise<Todo>;
+  applyBulk(actor: Principal, operations: BulkOperation[]): Promise<TodoWriteResult[]>;
+  // Deletes the completed todos the caller can see.
+  deleteCompleted(actor: Principal): Promise<Todo[]>;
+}
+
+// Turns an If-Match value into a repository precondition. Without one the
+// write is unconditional.
+function ifMatchPrecondition(ifMatch: string | undefined): Precondition | undefined {
+  return ifMatch === undefined ? undefined : (current) => ifMatchSatisfied(ifMatch, todoEtag(current));
+}
+
+// Restricts repository filters to the caller's todos; admins see everyone's.
+function ownerScope(actor: Principal): string | undefined {
+  return actor.role === "admin" ? undefined : actor.userId;
+}
+
+function forbidden(id: string, details: Record<string, unknown> = {}): ForbiddenError {
+  return new ForbiddenError("Todo belongs to another user", { ...details, id });
+}
+
+// The event each kind of write publishes.
+const writeEventTypes = { create: "todo.created", update: "todo.updated", delete: "todo.deleted" } as const;
+
+export function createTodoService(deps: TodoServiceDeps): TodoService {
+  const { repository, clock, generateId, events } = deps;
+
+  function buildTodo(actor: Principal, input: CreateTodoInput): Todo {
+    const createdAt = clock();
+    return {
+      id: generateId(),
+      ownerId: actor.userId,
+      title: input.title,
+      description: input.description ?? null,
+      completed: false,
+      priority: input.priority,
+      tags: input.tags,
+      dueDate: input.dueDate ?? null,
+      createdAt,
+      updatedAt: createdAt,
+      version: 1,
+    };
+  }
+
+  // Ownership never changes, so checking it before the write can't race with
+  // another request the way an If-Match check would. A missing todo passes
+  // here and is reported by the write itself.
+  async function assertWritable(actor: Principal, id: string): Promise<void> {
+    const todo = await repository.findById(id);
+    if (todo && !canAccess(actor, todo.ownerId)) {
+      throw forbidden(id);
+    }
+  }
+
+  function toTodoWrite(actor: Principal, operation: BulkOperation): TodoWrite {
+    switch (operation.op) {
+      case "create":
+        return { op: "create", todo: buildTodo(actor, operation.data) };
+      case "update":
+        return {
+          op: "update",
+          id: operation.id,
+          changes: { ...operation.data, updatedAt: clock() },
+          precondition: ifMatchPrecondition(operation.ifMatch),
+        };
+      case "delete":
+        return { op: "delete", id: operation.id, precondition: ifMatchPrecondition(operation.ifMatch) };
+    }
+  }
+
+  return {
+    async list(actor, { cursor, ...query }) {
+      let after: TodoCursor | undefined;
+
+      if (cursor !== undefined) {
+        after = decodeCursor(cursor);
+        // A cursor only makes sense for the ordering it was issued under.
+        if (!after || after.sort !== query.sort || after.order !== query.order) {
+          throw new ValidationError("Request validation failed", {
+            cursor: ["Invalid cursor for this sort order"],
+          });
+        }
+      }
+
+      const page = await repository.list({ ...query, ownerId: ownerScope(actor), after, now: clock() });
+      const last = page.items.at(-1);
+      const nextCursor =
+        page.hasMore && last
+          ? encodeCursor({ sort: query.sort, order: query.order, value: sortValue(last, query.sort), id: last.id })
+          : null;
+
+      return { items: page.items, nextCursor, total: page.total };
+    },
+
+    async findById(actor, id) {
+      const todo = await repository.findById(id);
+      if (todo && !canAccess(actor, todo.ownerId)) {
+        throw forbidden(id);
+      }
+      return todo;
+    },
+
+    async findByIds(actor, ids) {
+      const found = new Map((await repository.findByIds(ids)).map((todo) => [todo.id, todo]));
+      return ids.map((id) => {
+        const todo = found.get(id);
+        return todo && !canAccess(actor, todo.ownerId) ? forbidden(id) : todo;
+      });
+    },
+
+    async create(actor, input) {
+      const todo = await repository.create(buildTodo(actor, input));
+      events.emit("todo.created", todo);
+      return todo;
+    },
+
+    async update(actor, id, input, ifMatch) {
+      await assertWritable(actor, id);
+      const updated = await repository.update(id, { ...input, updatedAt: clock() }, ifMatchPrecondition(ifMatch));
+      if (!updated) {
+        throw new NotFoundError("Todo not found", { id });
+      }
+      events.emit("todo.updated", updated);
+      return updated;
+    },
+
+    async delete(actor, id, ifMatch) {
+      await assertWritable(actor, id);
+      const deleted = await repository.delete(id, ifMatchPrecondition(ifMatch));
+      if (!deleted) {
+        throw new NotFoundError("Todo not found", { id });
+      }
+      events.emit("todo.deleted", deleted);
+      return deleted;
+    },
+
+    async applyBulk(actor, operations) {
+      const targets = operations.flatMap((operation) => (operation.op === "create" ? [] : [operation.id]));
+      const existing = new Map((await repository.findByIds(targets)).map((todo) => [todo.id, todo]));
+      operations.forEach((operation, index) => {
+        const todo = operation.op === "create" ? undefined : existing.get(operation.id);
+        if (todo && !canAccess(actor, todo.ownerId)) {
+          throw forbidden(todo.id, { operation: index });
+        }
+      });
+
+      const results = await repository.applyBatch(operations.map((operation) => toTodoWrite(actor, operation)));
+      results.forEach(({ op, todo }) => events.emit(writeEventTypes[op], todo));
+      return results;
+    },
+
+    async deleteCompleted(actor) {
+      const deleted = await repository.deleteMatching({ completed: true, ownerId: ownerScope(actor) }, clock());
+      deleted.forEach((todo) => events.emit("todo.deleted", todo));
+      return deleted;
+    },
+  };
+}
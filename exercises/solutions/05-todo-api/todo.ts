@@ -0,0 +1,127 @@
+// --- Data Model ---
+
+import { z } from "zod";
+
+export const todoPriorities = ["low", "medium", "high", "urgent"] as const;
+export type TodoPriority = (typeof todoPriorities)[number];
+
+export interface Todo {
+  id: string;
+  // The `sub` of the user who created it.
+  ownerId: string;
+  title: string;
+  // Optional fields are stored as null rather than left out, so every todo in
+  // a response has the same keys.
+  description: string | null;
+  completed: boolean;
+  priority: TodoPriority;
+  tags: string[];
+  dueDate: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  // Bumped on every write; exposed to clients as the ETag.
+  version: number;
+}
+
+// Fields a write may change. id, ownerId, createdAt and version are owned by
+// the server; a todo never changes hands.
+export type TodoChanges = Partial<Omit<Todo, "id" | "ownerId" | "createdAt" | "version">>;
+
+// Zod schemas for input validation
+const titleSchema = z.string().min(1, "Title is required").max(200, "Title too long");
+const descriptionSchema = z.string().max(2000, "Description too long");
+
+// Accepts a full ISO timestamp or a plain date ("2026-03-01" = midnight UTC).
+const dueDateSchema = z
+  .union([z.string().datetime({ offset: true }), z.string().date()], {
+    errorMap: () => ({ message: "Expected an ISO 8601 date or date-time" }),
+  })
+  .transform((value) => new Date(value));
+
+// Tags are case-insensitive labels: trimmed, lowercased and de-duplicated.
+const tagsSchema = z
+  .array(z.string().trim().toLowerCase().min(1, "Tags cannot be empty").max(50, "Tag too long"))
+  .max(20, "At most 20 tags")
+  .transform((tags) => [...new Set(tags)]);
+
+export const createTodoSchema = z.object({
+  title: titleSchema,
+  description: descriptionSchema.optional(),
+  priority: z.enum(todoPriorities).default("medium"),
+  tags: tagsSchema.default([]),
+  dueDate: dueDateSchema.optional(),
+});
+
+// null clears an optional field; leaving a key out keeps its current value.
+export const updateTodoSchema = z.object({
+  title: titleSchema.optional(),
+  description: descriptionSchema.nullable().optional(),
+  completed: z.boolean().optional(),
+  priority: z.enum(todoPriorities).optional(),
+  tags: tagsSchema.optional(),
+  dueDate: dueDateSchema.nullable().optional(),
+});
+
+export type CreateTodoInput = z.infer<typeof createTodoSchema>;
+export type UpdateTodoInput = z.infer<typeof updateTodoSchema>;
+
+// POST /todos/bulk body. `ifMatch` plays the role of the If-Match header
+// for a single operation.
+export const bulkOperationSchema = z.discriminatedUnion("op", [
+  z.object({ op: z.literal("create"), data: createTodoSchema }),
+  z.object({ op: z.literal("update"), id: z.string().min(1), data: updateTodoSchema, ifMatch: z.string().optional() }),
+  z.object({ op: z.literal("delete"), id: z.string().min(1), ifMatch: z.string().optional() }),
+]);
+
+export const bulkRequestSchema = z.object({
+  operations: z.array(bulkOperationSchema).min(1, "At least one operation").max(100, "At most 100 operations"),
+});
+
+export type BulkOperation = z.infer<typeof bulkOperationSchema>;
+
+// A repeated query param (?tag=a&tag=b) arrives as an array, a single one as a string.
+function oneOrMany<T extends z.ZodTypeAny>(item: T) {
+  return z.union([item, z.array(item)]).transform((value): z.output<T>[] => (Array.isArray(value) ? value : [value]));
+}
+
+const booleanQueryParam = z
+  .enum(["true", "false"])
+  .transform((value) => value === "true");
+
+// Query strings arrive as strings, so numbers are coerced and booleans are
+// matched against their literal spelling.
+export const listTodosQuerySchema = z
+  .object({
+    completed: booleanQueryParam.optional(),
+    // Every listed tag must be present.
+    tag: oneOrMany(z.string().trim().toLowerCase().min(1)).optional(),
+    // Any of the listed priorities matches.
+    priority: oneOrMany(z.enum(todoPriorities)).optional(),
+    // Open todos whose due date has passed.
+    overdue: booleanQueryParam.optional(),
+    // Case-insensitive search over title and description; all words must match.
+    q: z.string().trim().min(1).max(200).optional(),
+    sort: z.enum(["createdAt", "title"]).default("createdAt"),
+    order: z.enum(["asc", "desc"]).default("asc"),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+    cursor: z.string().min(1).optional(),
+    offset: z.coerce.number().int().min(0).optional(),
+  })
+  .refine((query) => query.cursor === undefined || query.offset === undefined, {
+    message: "Use either cursor or offset, not both",
+    path: ["cursor"],
+  });
+
+// DELETE /todos only supports clearing completed todos; requiring the
+// explicit filter means a bare DELETE /todos can never wipe the list.
+export const deleteTodosQuerySchema = z
+  .object({
+    completed: z.literal("true", {
+      errorMap: () => ({ message: "Only completed=true is supported" }),
+    }),
+  })
+  .strict();
+
+export type ListTodosQuery = z.infer<typeof listTodosQuerySchema>;
+export type TodoSortField = ListTodosQuery["sort"];
+export type SortOrder = ListTodosQuery["order"];
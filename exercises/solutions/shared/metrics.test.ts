@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { MetricsRegistry } from "./metrics";
+
+describe("MetricsRegistry", () => {
+  it("renders counters and gauges in the text exposition format", () => {
+    const registry = new MetricsRegistry();
+    const jobs = registry.counter({ name: "jobs_total", help: "Jobs run", labelNames: ["queue"] });
+    const temperature = registry.gauge({ name: "temperature", help: "Degrees\nCelsius" });
+
+    jobs.inc({ queue: "emails" });
+    jobs.inc({ queue: "emails" }, 2);
+    jobs.inc({ queue: 'say "hi"\\' });
+    temperature.set(undefined, 21.5);
+    temperature.dec(undefined, 0.5);
+
+    expect(registry.render()).toBe(
+      [
+        "# HELP jobs_total Jobs run",
+        "# TYPE jobs_total counter",
+        'jobs_total{queue="emails"} 3',
+        'jobs_total{queue="say \\"hi\\"\\\\"} 1',
+        "# HELP temperature Degrees\\nCelsius",
+        "# TYPE temperature gauge",
+        "temperature 21",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("renders cumulative histogram buckets with sum and count", () => {
+    const registry = new MetricsRegistry();
+    const latency = registry.histogram({ name: "latency_ms", help: "Latency", labelNames: ["route"], buckets: [10, 100] });
+
+    for (const value of [5, 10, 50, 500]) {
+      latency.observe({ route: "/a" }, value);
+    }
+
+    expect(registry.render()).toContain(
+      [
+        'latency_ms_bucket{route="/a",le="10"} 2',
+        'latency_ms_bucket{route="/a",le="100"} 3',
+        'latency_ms_bucket{route="/a",le="+Inf"} 4',
+        'latency_ms_sum{route="/a"} 565',
+        'latency_ms_count{route="/a"} 4',
+      ].join("\n"),
+    );
+  });
+
+  it("reads collected gauges on every render", () => {
+    const registry = new MetricsRegistry();
+    let depth = 1;
+    registry.gauge({ name: "depth", help: "Depth", collect: (gauge) => gauge.set(undefined, depth) });
+
+    expect(registry.render()).toContain("depth 1");
+    depth = 4;
+    expect(registry.render()).toContain("depth 4");
+  });
+
+  it("rejects invalid definitions and usage", () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter({ name: "ok_total", help: "", labelNames: ["a"] });
+
+    expect(() => registry.counter({ name: "ok_total", help: "" })).toThrow(/already registered/);
+    expect(() => registry.counter({ name: "bad-name", help: "" })).toThrow(/Invalid metric name/);
+    expect(() => registry.counter({ name: "x", help: "", labelNames: ["le"] })).toThrow(/Invalid label name/);
+    expect(() => registry.histogram({ name: "h", help: "", buckets: [5, 1] })).toThrow(/ascending/);
+    expect(() => counter.inc({ a: "1" }, -1)).toThrow(/only increase/);
+    expect(() => counter.inc({} as { a: string })).toThrow(/Missing label "a"/);
+  });
+});
@@ -0,0 +1,226 @@
+// --- Metrics ---
+// A small Prometheus-style registry: counters, gauges and histograms with
+// fixed label names, rendered in the text exposition format that a
+// Prometheus server scrapes from GET /metrics.
+//
+// Label values should be low-cardinality (routes, status codes, queue
+// names), never ids; every distinct combination becomes its own time series.
+
+export type LabelValues<L extends string> = Record<L, string | number>;
+
+export interface MetricOptions<L extends string> {
+  name: string;
+  help: string;
+  labelNames?: readonly L[];
+}
+
+const metricNamePattern = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const labelNamePattern = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: [string, string][]): string {
+  if (labels.length === 0) {
+    return "";
+  }
+  return `{${labels.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return "NaN";
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+abstract class Metric<L extends string> {
+  abstract readonly type: "counter" | "gauge" | "histogram";
+  readonly name: string;
+  readonly help: string;
+  protected readonly labelNames: readonly L[];
+
+  constructor(options: MetricOptions<L>) {
+    if (!metricNamePattern.test(options.name)) {
+      throw new Error(`Invalid metric name "${options.name}"`);
+    }
+    for (const label of options.labelNames ?? []) {
+      if (!labelNamePattern.test(label) || label.startsWith("__") || label === "le") {
+        throw new Error(`Invalid label name "${label}" on metric "${options.name}"`);
+      }
+    }
+    this.name = options.name;
+    this.help = options.help;
+    this.labelNames = options.labelNames ?? [];
+  }
+
+  // Series are keyed by their label values in labelNames order.
+  protected key(labels: Partial<LabelValues<L>> = {}): string {
+    return JSON.stringify(
+      this.labelNames.map((name) => {
+        const value = labels[name];
+        if (value === undefined) {
+          throw new Error(`Missing label "${name}" on metric "${this.name}"`);
+        }
+        return String(value);
+      }),
+    );
+  }
+
+  protected labelPairs(key: string): [string, string][] {
+    const values = JSON.parse(key) as string[];
+    return this.labelNames.map((name, index) => [name, values[index]!]);
+  }
+
+  protected abstract samples(): string[];
+
+  render(): string {
+    return [`# HELP ${this.name} ${escapeHelp(this.help)}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join(
+      "\n",
+    );
+  }
+}
+
+export class Counter<L extends string = never> extends Metric<L> {
+  readonly type = "counter";
+  private values = new Map<string, number>();
+
+  inc(labels?: LabelValues<L>, amount = 1): void {
+    if (amount < 0) {
+      throw new Error(`Counter "${this.name}" can only increase`);
+    }
+    const key = this.key(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + amount);
+  }
+
+  protected samples(): string[] {
+    return [...this.values].map(([key, value]) => `${this.name}${formatLabels(this.labelPairs(key))} ${formatValue(value)}`);
+  }
+}
+
+export interface GaugeOptions<L extends string> extends MetricOptions<L> {
+  // Called on every scrape, for values that are cheaper to read than to track
+  // (queue lengths, open connections).
+  collect?: (gauge: Gauge<L>) => void;
+}
+
+export class Gauge<L extends string = never> extends Metric<L> {
+  readonly type = "gauge";
+  private values = new Map<string, number>();
+  private readonly collect: ((gauge: Gauge<L>) => void) | undefined;
+
+  constructor(options: GaugeOptions<L>) {
+    super(options);
+    this.collect = options.collect;
+  }
+
+  set(labels: LabelValues<L> | undefined, value: number): void {
+    this.values.set(this.key(labels), value);
+  }
+
+  inc(labels?: LabelValues<L>, amount = 1): void {
+    const key = this.key(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + amount);
+  }
+
+  dec(labels?: LabelValues<L>, amount = 1): void {
+    this.inc(labels, -amount);
+  }
+
+  protected samples(): string[] {
+    this.collect?.(this);
+    return [...this.values].map(([key, value]) => `${this.name}${formatLabels(this.labelPairs(key))} ${formatValue(value)}`);
+  }
+}
+
+export interface HistogramOptions<L extends string> extends MetricOptions<L> {
+  // Upper bounds, ascending. +Inf is added automatically.
+  buckets: readonly number[];
+}
+
+interface HistogramSeries {
+  // Per-bucket (not cumulative) counts; cumulated when rendering.
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram<L extends string = never> extends Metric<L> {
+  readonly type = "histogram";
+  private readonly buckets: readonly number[];
+  private series = new Map<string, HistogramSeries>();
+
+  constructor(options: HistogramOptions<L>) {
+    super(options);
+    const sorted = options.buckets.every((bound, i) => i === 0 || bound > options.buckets[i - 1]!);
+    if (options.buckets.length === 0 || !sorted) {
+      throw new Error(`Histogram "${options.name}" needs ascending buckets`);
+    }
+    this.buckets = options.buckets;
+  }
+
+  observe(labels: LabelValues<L> | undefined, value: number): void {
+    const key = this.key(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { counts: new Array<number>(this.buckets.length + 1).fill(0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    const index = this.buckets.findIndex((bound) => value <= bound);
+    series.counts[index === -1 ? this.buckets.length : index]! += 1;
+    series.sum += value;
+    series.count += 1;
+  }
+
+  protected samples(): string[] {
+    const lines: string[] = [];
+    for (const [key, series] of this.series) {
+      const labels = this.labelPairs(key);
+      let cumulative = 0;
+      [...this.buckets, Infinity].forEach((bound, i) => {
+        cumulative += series.counts[i]!;
+        const le: [string, string] = ["le", formatValue(bound)];
+        lines.push(`${this.name}_bucket${formatLabels([...labels, le])} ${cumulative}`);
+      });
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(series.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${series.count}`);
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  readonly contentType = "text/plain; version=0.0.4; charset=utf-8";
+  private metrics = new Map<string, Metric<string>>();
+
+  counter<L extends string = never>(options: MetricOptions<L>): Counter<L> {
+    return this.register(new Counter(options));
+  }
+
+  gauge<L extends string = never>(options: GaugeOptions<L>): Gauge<L> {
+    return this.register(new Gauge(options));
+  }
+
+  histogram<L extends string = never>(options: HistogramOptions<L>): Histogram<L> {
+    return this.register(new Histogram(options));
+  }
+
+  // The full exposition, one block per metric in registration order.
+  render(): string {
+    return [...this.metrics.values()].map((metric) => `${metric.render()}\n`).join("");
+  }
+
+  private register<M extends Metric<any>>(metric: M): M {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric "${metric.name}" is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}